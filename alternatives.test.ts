@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { mergeAlternatives, scoreAlternative } from './alternatives';
+
+describe('mergeAlternatives', () => {
+    it('keeps the current text as the selected first option', () => {
+        expect(mergeAlternatives('Stop scrolling.', [' Wait! ', 'Stop scrolling.', 'Look here.'])).toEqual({
+            options: ['Stop scrolling.', 'Wait!', 'Look here.'],
+            selected: 0,
+        });
+    });
+
+    it('selects the first generated option when the section is empty', () => {
+        const alternatives = mergeAlternatives('  ', ['Wait!', '', 'Look here.']);
+
+        expect(alternatives.options).toEqual(['Wait!', 'Look here.']);
+        expect(alternatives.options[alternatives.selected]).toBe('Wait!');
+    });
+});
+
+describe('scoreAlternative', () => {
+    it('measures length, questions, numbers and power words', () => {
+        expect(scoreAlternative('Why do 3 secrets work instantly?', 150)).toEqual({
+            characters: 32,
+            words: 6,
+            readingSeconds: 2.4,
+            isQuestion: true,
+            hasNumber: true,
+            powerWords: ['secret', 'instant', 'why'],
+        });
+    });
+});
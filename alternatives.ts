@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Schema, Type } from "@google/genai";
+import { countWords } from './scriptFormat';
+import { estimateSeconds } from './timing';
+import { SectionAlternatives } from './types';
+
+// Sections short enough to A/B test; a script type only offers the ones it has
+export const ALTERNATIVE_KEYS = ['hook', 'callToAction'];
+export const MIN_ALTERNATIVES = 2;
+export const MAX_ALTERNATIVES = 6;
+export const DEFAULT_ALTERNATIVES = 3;
+
+// Common copywriting triggers; simple suffixes count too, so "secrets" and "instantly" match
+const POWER_WORDS = [
+    'secret', 'proven', 'instant', 'free', 'new', 'now', 'easy', 'simple', 'fast', 'quick', 'ultimate', 'best',
+    'worst', 'never', 'stop', 'mistake', 'surprising', 'shocking', 'hidden', 'exclusive', 'guaranteed', 'powerful',
+    'effortless', 'truth', 'why', 'how', 'you', 'imagine', 'discover', 'unlock', 'hack', 'everyone', 'nobody',
+];
+
+const NUMBER_WORDS = /\b(?:one|two|three|four|five|six|seven|eight|nine|ten|twelve|twenty|hundred|thousand|million|billion)\b/i;
+
+export type AlternativeMetrics = {
+    characters: number;
+    words: number;
+    readingSeconds: number;
+    isQuestion: boolean;
+    hasNumber: boolean;
+    powerWords: string[];
+};
+
+export const scoreAlternative = (text: string, wordsPerMinute: number): AlternativeMetrics => {
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+    return {
+        characters: text.trim().length,
+        words: countWords(text),
+        readingSeconds: estimateSeconds(text, wordsPerMinute),
+        isQuestion: text.includes('?'),
+        hasNumber: /\d/.test(text) || NUMBER_WORDS.test(text),
+        powerWords: POWER_WORDS.filter(word => tokens.some(token => token.startsWith(word) && /^(?:s|es|ed|ly|ing)?$/.test(token.slice(word.length)))),
+    };
+};
+
+export const getAlternativesSchema = (keys: string[]): Schema => ({
+    type: Type.OBJECT,
+    properties: Object.fromEntries(keys.map(key => [key, {
+        type: Type.ARRAY,
+        description: `Alternative versions of the ${key} section, each one complete on its own.`,
+        items: { type: Type.STRING },
+    }])),
+    required: keys,
+});
+
+// The version already in the script stays as the first option so it can always be picked again;
+// an empty section has nothing to keep, so the first generated option is selected instead
+export const mergeAlternatives = (current: string, generated: string[]): SectionAlternatives => {
+    const options = [current, ...generated.map(option => option.trim())]
+        .filter((option, i, all) => option.trim() && all.indexOf(option) === i);
+    return { options, selected: 0 };
+};
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MAX_BATCH_RETRIES, createBatchState, generateBatchRow, getRetryDelay, parseBatchCsv, runWithConcurrency } from './batch';
+import { buildMockValue } from './providers/mock';
+import { StreamRequest, createFakeStreamSource } from './scriptStream';
+import { SCRIPT_TYPES } from './scriptTypes';
+
+const ROW = { line: 2, idea: 'Cold brew at home', platforms: ['TikTok'], wordCount: '', tone: '' };
+const OPTIONS = { definition: SCRIPT_TYPES.social, brandProfile: null, language: 'en' };
+
+const validChunks = (request: StreamRequest) => [JSON.stringify(buildMockValue(request.responseSchema, 'script', 'cold brew'))];
+
+// Fails the first `failures` requests, then returns a valid script
+const createFlakySource = (failures: number) => {
+    let calls = 0;
+    const source = createFakeStreamSource(request => {
+        calls++;
+        if (calls <= failures) throw new Error('429 Too Many Requests');
+        return validChunks(request);
+    });
+    return { source, getCalls: () => calls };
+};
+
+describe('parseBatchCsv', () => {
+    it('reads quoted ideas and maps header aliases', () => {
+        const rows = parseBatchCsv('Topic,Channel,Words,Style\n"Coffee, tea or ""water""?","tiktok; LinkedIn",90,"Calm,\nwarm"\n', ['Instagram']);
+
+        expect(rows).toEqual([{ line: 2, idea: 'Coffee, tea or "water"?', platforms: ['TikTok', 'LinkedIn'], wordCount: '90', tone: 'Calm,\nwarm' }]);
+    });
+
+    it('reads columns in the documented order without a header and falls back to the default platforms', () => {
+        expect(parseBatchCsv('Cold brew\nMatcha,,,Upbeat', ['Instagram'])).toEqual([
+            { line: 1, idea: 'Cold brew', platforms: ['Instagram'], wordCount: '', tone: '' },
+            { line: 2, idea: 'Matcha', platforms: ['Instagram'], wordCount: '', tone: 'Upbeat' },
+        ]);
+    });
+
+    it('names the row with an unknown platform or a bad word count', () => {
+        expect(() => parseBatchCsv('Idea,Platforms\nCold brew,MySpace', [])).toThrow('Row 2 has an unknown platform "MySpace"');
+        expect(() => parseBatchCsv('Idea,Word Count\nCold brew,lots', [])).toThrow('Row 2 has a word count that is not a positive number');
+    });
+});
+
+describe('getRetryDelay', () => {
+    it('doubles the delay with each attempt', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+
+        expect([1, 2, 3].map(getRetryDelay)).toEqual([2000, 4000, 8000]);
+        vi.restoreAllMocks();
+    });
+});
+
+describe('generateBatchRow', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('retries a failing request on the backoff schedule and finishes once it succeeds', async () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        const { source, getCalls } = createFlakySource(2);
+        const statuses: string[] = [];
+        const pending = generateBatchRow(source, createBatchState(ROW), OPTIONS, new AbortController().signal, state => statuses.push(state.status));
+
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(getCalls()).toBe(1);
+        expect(statuses).toContain('retrying');
+        await vi.advanceTimersByTimeAsync(1);
+        expect(getCalls()).toBe(2);
+        await vi.advanceTimersByTimeAsync(3999);
+        expect(getCalls()).toBe(2);
+        await vi.advanceTimersByTimeAsync(1);
+        const result = await pending;
+
+        expect(getCalls()).toBe(3);
+        expect(result.status).toBe('done');
+        expect(result.attempts).toBe(3);
+        expect(result.error).toBeUndefined();
+        expect(result.variants.map(variant => variant.platform)).toEqual(['TikTok']);
+    });
+
+    it('fails the row after the last retry', async () => {
+        const { source, getCalls } = createFlakySource(Infinity);
+        const pending = generateBatchRow(source, createBatchState(ROW), OPTIONS, new AbortController().signal, () => {});
+        await vi.runAllTimersAsync();
+        const result = await pending;
+
+        expect(getCalls()).toBe(MAX_BATCH_RETRIES + 1);
+        expect(result.status).toBe('failed');
+        expect(result.error).toBe('429 Too Many Requests');
+    });
+
+    it('stops while waiting to retry without making another request', async () => {
+        const { source, getCalls } = createFlakySource(Infinity);
+        const controller = new AbortController();
+        const pending = generateBatchRow(source, createBatchState(ROW), OPTIONS, controller.signal, () => {});
+        await vi.advanceTimersByTimeAsync(500);
+        controller.abort();
+        const result = await pending;
+
+        expect(getCalls()).toBe(1);
+        expect(result.status).toBe('stopped');
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('keeps the platforms that finished before a failure', async () => {
+        let calls = 0;
+        const source = createFakeStreamSource(request => {
+            if (++calls > 1) throw new Error('Refused');
+            return validChunks(request);
+        });
+        const pending = generateBatchRow(source, createBatchState({ ...ROW, platforms: ['TikTok', 'LinkedIn'] }), OPTIONS, new AbortController().signal, () => {});
+        await vi.runAllTimersAsync();
+        const result = await pending;
+
+        expect(result.status).toBe('failed');
+        expect(result.error).toBe('LinkedIn: Refused');
+        expect(result.variants.map(variant => variant.platform)).toEqual(['TikTok']);
+    });
+});
+
+describe('runWithConcurrency', () => {
+    it('never runs more than the limit at once and processes every item', async () => {
+        let running = 0;
+        let peak = 0;
+        const done: number[] = [];
+        await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async item => {
+            running++;
+            peak = Math.max(peak, running);
+            await new Promise(resolve => setTimeout(resolve, item % 3));
+            running--;
+            done.push(item);
+        });
+
+        expect(peak).toBe(3);
+        expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    });
+
+    it('does not start more lanes than there are items', async () => {
+        let peak = 0;
+        let running = 0;
+        await runWithConcurrency(['a'], 4, async () => {
+            peak = Math.max(peak, ++running);
+            await Promise.resolve();
+            running--;
+        });
+
+        expect(peak).toBe(1);
+    });
+});
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import JSZip from 'jszip';
+import { Packer } from 'docx';
+import { parseCsv, toCsv } from './csv';
+import { slugify } from './download';
+import { ExportDocument, buildAvPdf, buildDocx } from './exporters';
+import { PLATFORMS } from './platforms';
+import { buildScriptPrompt, buildSystemInstruction } from './prompts';
+import { countWords, getSpokenSections } from './scriptFormat';
+import { ScriptStreamSource, isAbortError } from './scriptStream';
+import { ScriptTypeDefinition, getStreamingSchema } from './scriptTypes';
+import { ContentViolationError, generateStructured } from './structuredGeneration';
+import { estimateSeconds, formatDuration } from './timing';
+import { BrandProfile, ScriptSections, ScriptTypeId, ScriptVariant } from './types';
+
+export const MAX_BATCH_CONCURRENCY = 4;
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+
+export type BatchOutputFormat = 'docx' | 'pdf' | 'both';
+
+export type BatchRow = {
+    line: number;
+    idea: string;
+    platforms: string[];
+    wordCount: string;
+    tone: string;
+};
+
+export type BatchRowStatus = 'pending' | 'running' | 'retrying' | 'done' | 'failed' | 'stopped';
+
+export type BatchRowState = {
+    row: BatchRow;
+    status: BatchRowStatus;
+    attempts: number;
+    variants: ScriptVariant[];
+    error?: string;
+};
+
+export type BatchOptions = {
+    definition: ScriptTypeDefinition;
+    brandProfile?: BrandProfile | null;
+    language: string;
+};
+
+// Header names people actually use in content calendars, matched case- and punctuation-insensitively
+const COLUMN_ALIASES: Record<Exclude<keyof BatchRow, 'line'>, string[]> = {
+    idea: ['idea', 'contentidea', 'content', 'topic', 'prompt'],
+    platforms: ['platforms', 'platform', 'channels', 'channel'],
+    wordCount: ['wordcount', 'words', 'length'],
+    tone: ['tone', 'style', 'tonestyle', 'instructions'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const parsePlatforms = (cell: string, line: number, defaultPlatforms: string[]) => {
+    const names = cell.split(/[;|,/]/).map(name => name.trim()).filter(Boolean);
+    if (names.length === 0) return defaultPlatforms;
+    return names.map(name => {
+        const platform = PLATFORMS.find(p => p.toLowerCase() === name.toLowerCase());
+        if (!platform) throw new Error(`Row ${line} has an unknown platform "${name}". Use one of: ${PLATFORMS.join(', ')}.`);
+        return platform;
+    });
+};
+
+// Without a recognisable header row the columns are read in the documented order
+export const parseBatchCsv = (text: string, defaultPlatforms: string[]): BatchRow[] => {
+    const rows = parseCsv(text);
+    if (rows.length === 0) throw new Error("The CSV file is empty.");
+
+    const headers = rows[0].map(normalizeHeader);
+    const findColumn = (key: keyof typeof COLUMN_ALIASES) => headers.findIndex(header => COLUMN_ALIASES[key].includes(header));
+    const hasHeader = findColumn('idea') !== -1;
+    const columns = hasHeader
+        ? { idea: findColumn('idea'), platforms: findColumn('platforms'), wordCount: findColumn('wordCount'), tone: findColumn('tone') }
+        : { idea: 0, platforms: 1, wordCount: 2, tone: 3 };
+    const cell = (cells: string[], index: number) => (index === -1 ? '' : cells[index] ?? '').trim();
+
+    const parsed = rows.slice(hasHeader ? 1 : 0).map((cells, i) => {
+        const line = i + (hasHeader ? 2 : 1);
+        const wordCount = cell(cells, columns.wordCount);
+        if (wordCount && !(parseInt(wordCount) > 0)) throw new Error(`Row ${line} has a word count that is not a positive number: "${wordCount}".`);
+        return {
+            line,
+            idea: cell(cells, columns.idea),
+            platforms: parsePlatforms(cell(cells, columns.platforms), line, defaultPlatforms),
+            wordCount,
+            tone: cell(cells, columns.tone),
+        };
+    }).filter(row => row.idea);
+
+    if (parsed.length === 0) throw new Error("The CSV file does not contain any content ideas.");
+    return parsed;
+};
+
+export const createBatchState = (row: BatchRow): BatchRowState => ({ row, status: 'pending', attempts: 0, variants: [] });
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+    }
+    signal.addEventListener('abort', done);
+});
+
+// Exponential backoff with jitter so parallel rows that hit a rate limit don't retry in lockstep
+export const getRetryDelay = (attempt: number) => RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 500;
+
+// Refusals and stops are final; anything else (rate limits, network, bad JSON) is worth another try
+const isRetryable = (e: unknown) => !(e instanceof ContentViolationError) && !isAbortError(e);
+
+export const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T, index: number) => Promise<void>) => {
+    let next = 0;
+    const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            await worker(items[index], index);
+        }
+    });
+    await Promise.all(lanes);
+};
+
+const generateVariant = async (source: ScriptStreamSource, row: BatchRow, platform: string, options: BatchOptions, signal: AbortSignal) => {
+    const { definition, brandProfile, language } = options;
+    const request = {
+        prompt: buildScriptPrompt({ definition, platform, idea: row.idea, wordCount: row.wordCount, advancedInstructions: row.tone, brandProfile, language }),
+        systemInstruction: buildSystemInstruction(definition.violationKey),
+        responseSchema: getStreamingSchema(definition),
+    };
+    const result = await generateStructured(source, request, signal, () => {});
+    return result.aborted ? null : result.value as ScriptSections;
+};
+
+// Generates every platform for one row, retrying each request on its own so finished platforms aren't redone
+export const generateBatchRow = async (
+    source: ScriptStreamSource,
+    state: BatchRowState,
+    options: BatchOptions,
+    signal: AbortSignal,
+    onUpdate: (state: BatchRowState) => void,
+): Promise<BatchRowState> => {
+    let current: BatchRowState = { ...state, status: 'running', variants: [], error: undefined };
+    const update = (next: Partial<BatchRowState>) => {
+        current = { ...current, ...next };
+        onUpdate(current);
+    };
+    update({});
+
+    const platforms = options.definition.fixedPlatform ? [options.definition.fixedPlatform] : state.row.platforms;
+    for (const platform of platforms) {
+        for (let attempt = 1; ; attempt++) {
+            update({ attempts: current.attempts + 1 });
+            try {
+                const sections = await generateVariant(source, state.row, platform, options, signal);
+                if (!sections) {
+                    update({ status: 'stopped' });
+                    return current;
+                }
+                update({ status: 'running', variants: [...current.variants, { platform, sections }] });
+                break;
+            } catch (e) {
+                console.error(`Batch Error (row ${state.row.line}, ${platform}):`, e);
+                const message = e instanceof Error ? e.message : "An unknown error occurred.";
+                if (!isRetryable(e) || attempt > MAX_BATCH_RETRIES) {
+                    update({ status: signal.aborted ? 'stopped' : 'failed', error: platforms.length > 1 ? `${platform}: ${message}` : message });
+                    return current;
+                }
+                update({ status: 'retrying', error: message });
+                await wait(getRetryDelay(attempt), signal);
+                if (signal.aborted) {
+                    update({ status: 'stopped' });
+                    return current;
+                }
+            }
+        }
+    }
+    update({ status: 'done', error: undefined });
+    return current;
+};
+
+const getFileBase = (state: BatchRowState) => `${String(state.row.line).padStart(3, '0')}-${slugify(state.row.idea)}`;
+
+const getRuntime = (scriptType: ScriptTypeId, variant: ScriptVariant, wordsPerMinute: number) => {
+    return getSpokenSections(scriptType, variant.sections).reduce((sum, section) => sum + estimateSeconds(section.text, wordsPerMinute), 0);
+};
+
+export const batchSummaryToCsv = (states: BatchRowState[], scriptType: ScriptTypeId, format: BatchOutputFormat, wordsPerMinute: number) => {
+    const header = ['Row', 'Idea', 'Platforms', 'Word Count', 'Tone', 'Status', 'Attempts', 'Spoken Words', 'Runtime', 'Files', 'Error'];
+    const rows = states.map(state => {
+        const spokenWords = state.variants.map(variant => getSpokenSections(scriptType, variant.sections).reduce((sum, section) => sum + countWords(section.text), 0));
+        const runtimes = state.variants.map(variant => `${variant.platform} ${formatDuration(getRuntime(scriptType, variant, wordsPerMinute))}`);
+        const extensions = format === 'both' ? ['docx', 'pdf'] : [format];
+        return [
+            state.row.line,
+            state.row.idea,
+            state.row.platforms.join('; '),
+            state.row.wordCount,
+            state.row.tone,
+            state.status,
+            state.attempts,
+            spokenWords.join('; '),
+            runtimes.join('; '),
+            state.variants.length > 0 ? extensions.map(extension => `${getFileBase(state)}.${extension}`).join('; ') : '',
+            state.error ?? '',
+        ];
+    });
+    return toCsv([header, ...rows]);
+};
+
+// Rows that produced at least one variant get documents, even if a later platform failed
+export const buildBatchZip = async (states: BatchRowState[], definition: ScriptTypeDefinition, format: BatchOutputFormat, wordsPerMinute: number) => {
+    const zip = new JSZip();
+    for (const state of states) {
+        if (state.variants.length === 0) continue;
+        const doc: ExportDocument = { title: state.row.idea, scriptType: definition.id, variants: state.variants };
+        if (format !== 'pdf') zip.file(`${getFileBase(state)}.docx`, await Packer.toBlob(buildDocx(doc)));
+        if (format !== 'docx') zip.file(`${getFileBase(state)}.pdf`, buildAvPdf(doc).output('arraybuffer'));
+    }
+    zip.file('summary.csv', batchSummaryToCsv(states, definition.id, format, wordsPerMinute));
+    return zip.generateAsync({ type: 'blob' });
+};
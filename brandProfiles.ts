@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createId } from './library';
+import { BrandProfile } from './types';
+
+const PROFILES_KEY = 'script-writer:brandProfiles';
+const FILE_FORMAT = 'script-writer-brand-profiles';
+const FILE_FORMAT_VERSION = 1;
+
+export const createBrandProfile = (name = 'New profile'): BrandProfile => ({
+    id: createId(),
+    name,
+    voice: '',
+    audience: '',
+    requiredPhrases: [],
+    forbiddenPhrases: [],
+    callToAction: '',
+    hashtags: '',
+    preferredPlatforms: [],
+    wordCount: '',
+    updatedAt: Date.now(),
+});
+
+const toText = (value: unknown) => typeof value === 'string' ? value : typeof value === 'number' ? String(value) : '';
+const toList = (value: unknown) => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+// Profiles come from other people's machines, so every field is checked and defaulted
+const normalizeProfile = (data: Record<string, unknown>): BrandProfile => ({
+    ...createBrandProfile(toText(data.name).trim() || 'Imported profile'),
+    ...(typeof data.id === 'string' && data.id ? { id: data.id } : {}),
+    voice: toText(data.voice),
+    audience: toText(data.audience),
+    requiredPhrases: toList(data.requiredPhrases),
+    forbiddenPhrases: toList(data.forbiddenPhrases),
+    callToAction: toText(data.callToAction),
+    hashtags: toText(data.hashtags),
+    preferredPlatforms: toList(data.preferredPlatforms),
+    wordCount: toText(data.wordCount),
+    updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : Date.now(),
+});
+
+export const loadBrandProfiles = (): BrandProfile[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]');
+        if (Array.isArray(saved)) return saved.map(normalizeProfile);
+    } catch (e) {
+        console.error("Brand Profiles Error:", e);
+    }
+    return [];
+};
+
+export const saveBrandProfiles = (profiles: BrandProfile[]) => {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const serializeBrandProfiles = (profiles: BrandProfile[]): string => {
+    return JSON.stringify({ format: FILE_FORMAT, formatVersion: FILE_FORMAT_VERSION, profiles }, null, 2);
+};
+
+export const parseBrandProfilesFile = (text: string): BrandProfile[] => {
+    let data;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+    if (data?.format !== FILE_FORMAT || !Array.isArray(data.profiles)) {
+        throw new Error("The file does not contain Script Writer brand profiles.");
+    }
+    if (data.formatVersion > FILE_FORMAT_VERSION) {
+        throw new Error("The profiles were exported by a newer version of Script Writer.");
+    }
+    return data.profiles
+        .filter((profile: unknown) => profile && typeof profile === 'object')
+        .map(normalizeProfile);
+};
+
+// A shared profile replaces the local copy with the same id, so teams can push updates
+export const mergeBrandProfiles = (existing: BrandProfile[], imported: BrandProfile[]): BrandProfile[] => {
+    const importedIds = new Set(imported.map(profile => profile.id));
+    return [...existing.filter(profile => !importedIds.has(profile.id)), ...imported];
+};
+
+export const parsePhraseList = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { scoreAlternative } from '../alternatives';
+import { formatDuration } from '../timing';
+import { SectionAlternatives } from '../types';
+
+type AlternativesPickerProps = {
+    label: string;
+    alternatives: SectionAlternatives;
+    wordsPerMinute: number;
+    disabled?: boolean;
+    onSelect: (index: number) => void;
+};
+
+export const AlternativesPicker = ({ label, alternatives, wordsPerMinute, disabled, onSelect }: AlternativesPickerProps) => {
+    const { options, selected } = alternatives;
+    const metrics = options.map(option => scoreAlternative(option, wordsPerMinute));
+    const shortest = Math.min(...metrics.map(m => m.characters));
+    const mostPowerWords = Math.max(...metrics.map(m => m.powerWords.length));
+
+    return (
+        <div className="alternatives-picker" role="radiogroup" aria-label={`Alternatives for ${label}`}>
+            {options.map((option, i) => (
+                <div key={i} className={`alternative-card ${i === selected ? 'selected' : ''}`}>
+                    <span className="translation-label">{i === 0 ? 'Original' : `Option ${i}`}</span>
+                    <p>{option}</p>
+                    <ul className="alternative-metrics">
+                        <li className={metrics[i].characters === shortest ? 'best' : ''}>{`${metrics[i].characters} chars · ${metrics[i].words} words`}</li>
+                        <li>{`${formatDuration(metrics[i].readingSeconds)} to read`}</li>
+                        {metrics[i].isQuestion && <li>Question</li>}
+                        {metrics[i].hasNumber && <li>Number</li>}
+                        <li className={metrics[i].powerWords.length > 0 && metrics[i].powerWords.length === mostPowerWords ? 'best' : ''} title={metrics[i].powerWords.join(', ')}>
+                            {`${metrics[i].powerWords.length} power word${metrics[i].powerWords.length === 1 ? '' : 's'}`}
+                        </li>
+                    </ul>
+                    <button
+                        className="copy-btn"
+                        role="radio"
+                        aria-checked={i === selected}
+                        onClick={() => onSelect(i)}
+                        disabled={disabled || i === selected}
+                    >
+                        {i === selected ? 'In use' : 'Use this'}
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import {
+    BatchOutputFormat, BatchRowState, DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY, buildBatchZip, createBatchState,
+    generateBatchRow, parseBatchCsv, runWithConcurrency,
+} from '../batch';
+import { toCsv } from '../csv';
+import { downloadBlob } from '../download';
+import { getLanguageName, supportsPdfExport } from '../languages';
+import { LintFinding, lintVariant } from '../linter';
+import { ProviderSettings, createStreamSource } from '../providers';
+import { ScriptTypeDefinition } from '../scriptTypes';
+import { BrandProfile } from '../types';
+import { LintFindings } from './LintFindings';
+
+type BatchPanelProps = {
+    definition: ScriptTypeDefinition;
+    defaultPlatforms: string[];
+    brandProfile: BrandProfile | null;
+    language: string;
+    providerSettings: ProviderSettings;
+    wordsPerMinute: number;
+    rows: BatchRowState[];
+    setRows: (update: BatchRowState[] | ((prev: BatchRowState[]) => BatchRowState[])) => void;
+    onClose: () => void;
+};
+
+const TEMPLATE_ROWS = [
+    ['Idea', 'Platforms', 'Word Count', 'Tone'],
+    ['3 mistakes first-time runners make', 'TikTok; Instagram', '120', 'Upbeat, practical'],
+    ['Why we switched to a four-day week', 'LinkedIn', '200', 'Candid, professional'],
+];
+
+const describeStatus = (state: BatchRowState, platformCount: number) => {
+    switch (state.status) {
+        case 'pending':
+            return 'Queued';
+        case 'running':
+            return `Generating ${state.variants.length + 1}/${platformCount}`;
+        case 'retrying':
+            return `Retrying after an error (${state.attempts} attempts): ${state.error}`;
+        case 'done':
+            return `Done${state.attempts > platformCount ? ` after ${state.attempts} attempts` : ''}`;
+        case 'failed':
+            return `Failed: ${state.error}`;
+        case 'stopped':
+            return 'Stopped';
+    }
+};
+
+export const BatchPanel = ({ definition, defaultPlatforms, brandProfile, language, providerSettings, wordsPerMinute, rows, setRows, onClose }: BatchPanelProps) => {
+    const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+    const [format, setFormat] = useState<BatchOutputFormat>('docx');
+    const [isRunning, setIsRunning] = useState(false);
+    const [isZipping, setIsZipping] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isExportOverridden, setIsExportOverridden] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    // Closing the panel stops any requests that are still running; finished rows are kept for a later retry
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const isPdfSupported = supportsPdfExport(language);
+    // Scripts in languages the PDF fonts can't show are only exported as DOCX
+    const outputFormat: BatchOutputFormat = isPdfSupported ? format : 'docx';
+
+    const getPlatforms = (state: BatchRowState) => definition.fixedPlatform ? [definition.fixedPlatform] : state.row.platforms;
+    const finished = rows.filter(r => r.status === 'done' || r.status === 'failed').length;
+    const failed = rows.filter(r => r.status === 'failed').length;
+    const hasOutput = rows.some(r => r.variants.length > 0);
+    // Only errors block the ZIP; warnings are left to the single-script view
+    const lintErrors: LintFinding[][] = isRunning ? rows.map(() => []) : rows.map(state => state.variants.flatMap(variant => {
+        return lintVariant(definition.id, variant, { brandProfile, language })
+            .filter(finding => finding.severity === 'error')
+            .map(finding => state.variants.length > 1 ? { ...finding, message: `${variant.platform}: ${finding.message}` } : finding);
+    }));
+    const erroredRows = lintErrors.filter(findings => findings.length > 0).length;
+    const isExportBlocked = !isExportOverridden && erroredRows > 0;
+
+    const handleImport = async (file: File) => {
+        setError(null);
+        try {
+            setRows(parseBatchCsv(await file.text(), defaultPlatforms).map(createBatchState));
+            setIsExportOverridden(false);
+        } catch (e) {
+            console.error("Import Error:", e);
+            setError(e instanceof Error ? e.message : "Could not read the CSV file.");
+        }
+    };
+
+    const handleRun = async () => {
+        // Finished rows are kept, so running again only retries the ones that failed or were stopped
+        const queue = rows.map((state, index) => ({ state, index })).filter(({ state }) => state.status !== 'done');
+        if (queue.length === 0) return;
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setIsRunning(true);
+        setIsExportOverridden(false);
+        setError(null);
+        setRows((prev: BatchRowState[]) => prev.map(state => state.status === 'done' ? state : createBatchState(state.row)));
+
+        try {
+            const source = createStreamSource(providerSettings);
+            const options = { definition, brandProfile, language };
+            await runWithConcurrency(queue, concurrency, async ({ state, index }) => {
+                if (controller.signal.aborted) return;
+                await generateBatchRow(source, createBatchState(state.row), options, controller.signal, next => {
+                    setRows((prev: BatchRowState[]) => prev.map((old, i) => i === index ? next : old));
+                });
+            });
+        } catch (e) {
+            console.error("Batch Error:", e);
+            setError(e instanceof Error ? e.message : "An unknown error occurred.");
+        } finally {
+            if (controller.signal.aborted) {
+                setRows((prev: BatchRowState[]) => prev.map(state => state.status === 'pending' ? { ...state, status: 'stopped' } : state));
+            }
+            abortControllerRef.current = null;
+            setIsRunning(false);
+        }
+    };
+
+    const handleDownloadZip = async () => {
+        if (isExportBlocked) return;
+        setIsZipping(true);
+        setError(null);
+        try {
+            downloadBlob(await buildBatchZip(rows, definition, outputFormat, wordsPerMinute), 'scripts-batch.zip');
+        } catch (e) {
+            console.error("Export Error:", e);
+            setError("Could not build the ZIP file.");
+        } finally {
+            setIsZipping(false);
+        }
+    };
+
+    const handleClose = () => {
+        if (isRunning && !window.confirm("Stop the batch and close? Finished scripts are kept and the rest can be retried later.")) return;
+        onClose();
+    };
+
+    const handleDownloadTemplate = () => {
+        downloadBlob(new Blob([toCsv(TEMPLATE_ROWS)], { type: 'text/csv;charset=utf-8' }), 'batch-template.csv');
+    };
+
+    return (
+        <div className="modal-backdrop" onClick={handleClose}>
+            <div className="library-panel batch-panel" role="dialog" aria-label="Batch generation" onClick={e => e.stopPropagation()}>
+                <div className="library-header">
+                    <h2>Batch Generation</h2>
+                    <div className="header-actions">
+                        <button className="export-btn" onClick={handleDownloadTemplate}>Template</button>
+                        <button className="export-btn" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>Import CSV</button>
+                        <button className="export-btn" onClick={handleClose} aria-label="Close batch generation">✕</button>
+                    </div>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="text/csv,.csv"
+                        hidden
+                        onChange={e => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+                <p className="library-meta">
+                    {`Each row becomes a ${definition.label} using the current language${brandProfile ? `, the "${brandProfile.name}" brand profile` : ''} and model settings. Rows without platforms use ${definition.fixedPlatform ?? (defaultPlatforms.join(', ') || 'none')}.${isPdfSupported ? '' : ` PDF files can't show ${getLanguageName(language)} characters yet, so only DOCX files are made.`}`}
+                </p>
+                {error && <p className="error">{error}</p>}
+                {rows.length === 0 ? (
+                    <p className="library-empty">Import a CSV with Idea, Platforms, Word Count and Tone columns to generate many scripts at once.</p>
+                ) : (
+                    <>
+                        <div className="batch-controls">
+                            <label className="inline-toggle">
+                                Parallel requests
+                                <select value={concurrency} onChange={e => setConcurrency(Number(e.target.value))} className="voice-select" disabled={isRunning}>
+                                    {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                            </label>
+                            <label className="inline-toggle">
+                                Files
+                                <select
+                                    value={outputFormat}
+                                    onChange={e => setFormat(e.target.value as BatchOutputFormat)}
+                                    className="voice-select"
+                                    disabled={!isPdfSupported}
+                                    title={isPdfSupported ? undefined : `PDF export can't show ${getLanguageName(language)} characters yet, so only DOCX files are made`}
+                                >
+                                    <option value="docx">DOCX</option>
+                                    <option value="pdf">PDF</option>
+                                    <option value="both">DOCX + PDF</option>
+                                </select>
+                            </label>
+                            <progress value={finished} max={rows.length} aria-label="Batch progress" />
+                            <span>{`${finished}/${rows.length} finished${failed > 0 ? ` · ${failed} failed` : ''}`}</span>
+                        </div>
+                        <table className="shot-table batch-table">
+                            <thead>
+                                <tr>
+                                    <th>Row</th>
+                                    <th>Idea</th>
+                                    <th>Platforms</th>
+                                    <th>Status</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map((state, i) => (
+                                    <tr key={state.row.line} className={`batch-${state.status}`}>
+                                        <td className="timestamp">{state.row.line}</td>
+                                        <td>{state.row.idea}</td>
+                                        <td>{getPlatforms(state).join(', ')}</td>
+                                        <td role="status">
+                                            {describeStatus(state, getPlatforms(state).length)}
+                                            <LintFindings findings={lintErrors[i]} />
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {erroredRows > 0 && (
+                            <div className="lint-summary has-errors">
+                                <span>{`The checker found errors in ${erroredRows} ${erroredRows === 1 ? 'row' : 'rows'}.`}</span>
+                                <label className="inline-toggle">
+                                    <input type="checkbox" checked={isExportOverridden} onChange={e => setIsExportOverridden(e.target.checked)} />
+                                    Export anyway
+                                </label>
+                            </div>
+                        )}
+                        <div className="header-actions">
+                            {isRunning ? (
+                                <button className="generate-btn stop-btn" onClick={() => abortControllerRef.current?.abort()}>Stop</button>
+                            ) : (
+                                <button className="generate-btn" onClick={handleRun} disabled={rows.every(r => r.status === 'done')}>
+                                    {rows.some(r => r.status === 'failed' || r.status === 'stopped') ? 'Retry Unfinished' : 'Generate All'}
+                                </button>
+                            )}
+                            <button
+                                className="export-btn share-btn"
+                                onClick={handleDownloadZip}
+                                disabled={isRunning || isZipping || !hasOutput || isExportBlocked}
+                                title={isExportBlocked ? 'Fix the errors found by the checker, or choose Export anyway' : undefined}
+                            >
+                                {isZipping ? 'Zipping...' : 'Download ZIP'}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
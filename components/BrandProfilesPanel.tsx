@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useRef } from 'react';
+import {
+    createBrandProfile, mergeBrandProfiles, parseBrandProfilesFile, parsePhraseList, serializeBrandProfiles,
+} from '../brandProfiles';
+import { downloadBlob, slugify } from '../download';
+import { PLATFORMS } from '../platforms';
+import { BrandProfile } from '../types';
+
+type BrandProfilesPanelProps = {
+    profiles: BrandProfile[];
+    selectedId: string | null;
+    onChange: (profiles: BrandProfile[]) => void;
+    onSelect: (id: string | null) => void;
+    onClose: () => void;
+};
+
+// Phrase lists are edited one per line and only split when the profile is saved
+type ProfileDraft = Omit<BrandProfile, 'requiredPhrases' | 'forbiddenPhrases'> & {
+    requiredPhrases: string;
+    forbiddenPhrases: string;
+};
+
+const toDraft = (profile: BrandProfile): ProfileDraft => ({
+    ...profile,
+    requiredPhrases: profile.requiredPhrases.join('\n'),
+    forbiddenPhrases: profile.forbiddenPhrases.join('\n'),
+});
+
+const fromDraft = (draft: ProfileDraft): BrandProfile => ({
+    ...draft,
+    name: draft.name.trim() || 'Untitled profile',
+    requiredPhrases: parsePhraseList(draft.requiredPhrases),
+    forbiddenPhrases: parsePhraseList(draft.forbiddenPhrases),
+    updatedAt: Date.now(),
+});
+
+export const BrandProfilesPanel = ({ profiles, selectedId, onChange, onSelect, onClose }: BrandProfilesPanelProps) => {
+    const [draft, setDraft] = useState<ProfileDraft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const updateDraft = (update: Partial<ProfileDraft>) => setDraft((prev: ProfileDraft | null) => prev && { ...prev, ...update });
+
+    const handleSave = () => {
+        if (!draft) return;
+        const profile = fromDraft(draft);
+        const exists = profiles.some(p => p.id === profile.id);
+        onChange(exists ? profiles.map(p => p.id === profile.id ? profile : p) : [...profiles, profile]);
+        setDraft(null);
+    };
+
+    const handleDelete = (profile: BrandProfile) => {
+        if (!window.confirm(`Delete the brand profile "${profile.name}"?`)) return;
+        onChange(profiles.filter(p => p.id !== profile.id));
+        if (profile.id === selectedId) onSelect(null);
+    };
+
+    const handleExport = (exported: BrandProfile[], name: string) => {
+        downloadBlob(new Blob([serializeBrandProfiles(exported)], { type: 'application/json' }), `${slugify(name)}.json`);
+    };
+
+    const handleImport = async (file: File) => {
+        setError(null);
+        try {
+            const imported = parseBrandProfilesFile(await file.text());
+            if (imported.length === 0) throw new Error("The file does not contain any brand profiles.");
+            onChange(mergeBrandProfiles(profiles, imported));
+        } catch (e) {
+            console.error("Import Error:", e);
+            setError(e instanceof Error ? e.message : "Could not import the brand profiles.");
+        }
+    };
+
+    const togglePlatform = (platform: string) => {
+        if (!draft) return;
+        updateDraft({
+            preferredPlatforms: draft.preferredPlatforms.includes(platform)
+                ? draft.preferredPlatforms.filter(p => p !== platform)
+                : [...draft.preferredPlatforms, platform],
+        });
+    };
+
+    return (
+        <div className="modal-backdrop" onClick={onClose}>
+            <div className="library-panel" role="dialog" aria-label="Brand profiles" onClick={e => e.stopPropagation()}>
+                <div className="library-header">
+                    <h2>Brand Profiles</h2>
+                    <div className="header-actions">
+                        <button className="export-btn" onClick={() => fileInputRef.current?.click()}>Import</button>
+                        <button className="export-btn" onClick={() => handleExport(profiles, 'brand-profiles')} disabled={profiles.length === 0}>Export All</button>
+                        <button className="export-btn" onClick={onClose} aria-label="Close brand profiles">✕</button>
+                    </div>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        hidden
+                        onChange={e => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+                {error && <p className="error">{error}</p>}
+                {draft ? (
+                    <form className="brand-profile-form" onSubmit={e => { e.preventDefault(); handleSave(); }}>
+                        <div className="input-group">
+                            <label htmlFor="brand-name-input">Name</label>
+                            <input id="brand-name-input" type="text" value={draft.name} onChange={e => updateDraft({ name: e.target.value })} />
+                        </div>
+                        <div className="input-group">
+                            <label htmlFor="brand-voice-input">Voice & Tone</label>
+                            <textarea
+                                id="brand-voice-input"
+                                value={draft.voice}
+                                onChange={e => updateDraft({ voice: e.target.value })}
+                                placeholder="e.g., Warm, witty and plain-spoken. Short sentences, no jargon."
+                                rows={3}
+                            />
+                        </div>
+                        <div className="input-group">
+                            <label htmlFor="brand-audience-input">Audience</label>
+                            <textarea
+                                id="brand-audience-input"
+                                value={draft.audience}
+                                onChange={e => updateDraft({ audience: e.target.value })}
+                                placeholder="e.g., First-time home cooks aged 20-35"
+                                rows={2}
+                            />
+                        </div>
+                        <div className="inline-inputs">
+                            <div className="input-group">
+                                <label htmlFor="brand-required-input">Required Phrases</label>
+                                <textarea
+                                    id="brand-required-input"
+                                    value={draft.requiredPhrases}
+                                    onChange={e => updateDraft({ requiredPhrases: e.target.value })}
+                                    placeholder="One per line"
+                                    rows={3}
+                                />
+                            </div>
+                            <div className="input-group">
+                                <label htmlFor="brand-forbidden-input">Forbidden Phrases</label>
+                                <textarea
+                                    id="brand-forbidden-input"
+                                    value={draft.forbiddenPhrases}
+                                    onChange={e => updateDraft({ forbiddenPhrases: e.target.value })}
+                                    placeholder="One per line"
+                                    rows={3}
+                                />
+                            </div>
+                        </div>
+                        <div className="input-group">
+                            <label htmlFor="brand-cta-input">Default Call to Action</label>
+                            <input
+                                id="brand-cta-input"
+                                type="text"
+                                value={draft.callToAction}
+                                onChange={e => updateDraft({ callToAction: e.target.value })}
+                                placeholder="e.g., Follow for a new recipe every Tuesday"
+                            />
+                        </div>
+                        <div className="inline-inputs">
+                            <div className="input-group">
+                                <label htmlFor="brand-hashtags-input">Default Hashtags</label>
+                                <input
+                                    id="brand-hashtags-input"
+                                    type="text"
+                                    value={draft.hashtags}
+                                    onChange={e => updateDraft({ hashtags: e.target.value })}
+                                    placeholder="e.g., #weeknightdinner #easyrecipes"
+                                />
+                            </div>
+                            <div className="input-group">
+                                <label htmlFor="brand-word-count-input">Word Count</label>
+                                <input
+                                    id="brand-word-count-input"
+                                    type="number"
+                                    value={draft.wordCount}
+                                    onChange={e => updateDraft({ wordCount: e.target.value })}
+                                    placeholder="e.g., 100"
+                                    min="1"
+                                />
+                            </div>
+                        </div>
+                        <div className="input-group">
+                            <label>Preferred Platforms</label>
+                            <div className="platform-group">
+                                {PLATFORMS.map(platform => (
+                                    <button
+                                        key={platform}
+                                        type="button"
+                                        className={`platform-btn ${draft.preferredPlatforms.includes(platform) ? 'selected' : ''}`}
+                                        onClick={() => togglePlatform(platform)}
+                                        aria-pressed={draft.preferredPlatforms.includes(platform)}
+                                    >
+                                        {platform}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="header-actions">
+                            <button type="submit" className="export-btn share-btn">Save Profile</button>
+                            <button type="button" className="export-btn" onClick={() => setDraft(null)}>Cancel</button>
+                        </div>
+                    </form>
+                ) : (
+                    <>
+                        {profiles.length === 0 ? (
+                            <p className="library-empty">Save your brand's voice, audience and standard phrases once and reuse them for every script.</p>
+                        ) : (
+                            <ul className="library-list">
+                                {profiles.map(profile => (
+                                    <li key={profile.id} className={profile.id === selectedId ? 'current' : ''}>
+                                        <div className="library-item-header">
+                                            <div>
+                                                <h3>{profile.name}</h3>
+                                                <span className="library-meta">
+                                                    {[profile.preferredPlatforms.join(', '), profile.wordCount && `${profile.wordCount} words`].filter(Boolean).join(' · ') || 'No defaults'}
+                                                </span>
+                                            </div>
+                                            <div className="section-card-actions">
+                                                <button className="copy-btn" onClick={() => onSelect(profile.id === selectedId ? null : profile.id)}>
+                                                    {profile.id === selectedId ? 'Deselect' : 'Use'}
+                                                </button>
+                                                <button className="copy-btn" onClick={() => setDraft(toDraft(profile))}>Edit</button>
+                                                <button className="copy-btn" onClick={() => handleExport([profile], profile.name)}>Export</button>
+                                                <button className="copy-btn danger" onClick={() => handleDelete(profile)}>Delete</button>
+                                            </div>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <button className="generate-btn" onClick={() => setDraft(toDraft(createBrandProfile()))}>New Profile</button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
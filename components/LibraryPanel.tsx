@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+    deleteProject, duplicateProject, getProject, listProjects, parseProjectFile,
+    putProject, searchProjects, serializeProject, createId,
+} from '../library';
+import { downloadBlob, slugify } from '../download';
+import { ScriptProject } from '../types';
+
+type LibraryPanelProps = {
+    currentProjectId: string | null;
+    onOpen: (project: ScriptProject) => void;
+    onProjectChanged: (project: ScriptProject) => void;
+    onProjectDeleted: (id: string) => void;
+    onClose: () => void;
+};
+
+export const LibraryPanel = ({ currentProjectId, onOpen, onProjectChanged, onProjectDeleted, onClose }: LibraryPanelProps) => {
+    const [projects, setProjects] = useState<ScriptProject[]>([]);
+    const [query, setQuery] = useState('');
+    const [activeTag, setActiveTag] = useState<string | null>(null);
+    const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = async () => {
+        try {
+            setProjects(await listProjects());
+        } catch (e) {
+            console.error("Library Error:", e);
+            setError("Could not read the script library.");
+        }
+    };
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const saveProject = async (project: ScriptProject) => {
+        try {
+            await putProject(project);
+            onProjectChanged(project);
+            await refresh();
+        } catch (e) {
+            console.error("Library Error:", e);
+            setError("Could not save the project.");
+        }
+    };
+
+    const handleAddTag = (project: ScriptProject) => {
+        const tag = (tagDrafts[project.id] ?? '').trim().toLowerCase();
+        if (!tag || project.tags.includes(tag)) return;
+        setTagDrafts(prev => ({ ...prev, [project.id]: '' }));
+        saveProject({ ...project, tags: [...project.tags, tag], updatedAt: Date.now() });
+    };
+
+    const handleRemoveTag = (project: ScriptProject, tag: string) => {
+        saveProject({ ...project, tags: project.tags.filter(t => t !== tag), updatedAt: Date.now() });
+    };
+
+    const handleDuplicate = (project: ScriptProject) => {
+        saveProject(duplicateProject(project));
+    };
+
+    const handleDelete = async (project: ScriptProject) => {
+        if (!window.confirm(`Delete "${project.name}" and all of its versions?`)) return;
+        try {
+            await deleteProject(project.id);
+            onProjectDeleted(project.id);
+            await refresh();
+        } catch (e) {
+            console.error("Library Error:", e);
+            setError("Could not delete the project.");
+        }
+    };
+
+    const handleExport = (project: ScriptProject) => {
+        downloadBlob(new Blob([serializeProject(project)], { type: 'application/json' }), `${slugify(project.name)}.json`);
+    };
+
+    const handleImport = async (file: File) => {
+        setError(null);
+        try {
+            const imported = parseProjectFile(await file.text());
+            // Importing a project that already exists keeps both copies
+            const existing = await getProject(imported.id);
+            const project = existing ? { ...imported, id: createId(), name: `${imported.name} (imported)` } : imported;
+            await putProject(project);
+            await refresh();
+        } catch (e) {
+            console.error("Import Error:", e);
+            setError(e instanceof Error ? e.message : "Could not import the project.");
+        }
+    };
+
+    const allTags = [...new Set(projects.flatMap(p => p.tags))].sort();
+    const visibleProjects = searchProjects(projects, query, activeTag);
+
+    return (
+        <div className="modal-backdrop" onClick={onClose}>
+            <div className="library-panel" role="dialog" aria-label="Script library" onClick={e => e.stopPropagation()}>
+                <div className="library-header">
+                    <h2>Script Library</h2>
+                    <div className="header-actions">
+                        <button className="export-btn" onClick={() => fileInputRef.current?.click()}>Import</button>
+                        <button className="export-btn" onClick={onClose} aria-label="Close library">✕</button>
+                    </div>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        hidden
+                        onChange={e => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+                <input
+                    type="text"
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    placeholder="Search ideas, tags and script text"
+                    aria-label="Search the library"
+                />
+                {allTags.length > 0 && (
+                    <div className="platform-group tag-filter">
+                        {allTags.map(tag => (
+                            <button
+                                key={tag}
+                                className={`platform-btn ${activeTag === tag ? 'selected' : ''}`}
+                                onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                                aria-pressed={activeTag === tag}
+                            >
+                                #{tag}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {error && <p className="error">{error}</p>}
+                {visibleProjects.length === 0 ? (
+                    <p className="library-empty">{projects.length === 0 ? 'Generated scripts are saved here automatically.' : 'No projects match your search.'}</p>
+                ) : (
+                    <ul className="library-list">
+                        {visibleProjects.map(project => (
+                            <li key={project.id} className={project.id === currentProjectId ? 'current' : ''}>
+                                <div className="library-item-header">
+                                    <div>
+                                        <h3>{project.name}</h3>
+                                        <span className="library-meta">
+                                            {new Date(project.updatedAt).toLocaleString()} · {project.versions.length} {project.versions.length === 1 ? 'version' : 'versions'}
+                                        </span>
+                                    </div>
+                                    <div className="section-card-actions">
+                                        <button className="copy-btn" onClick={() => onOpen(project)}>Open</button>
+                                        <button className="copy-btn" onClick={() => handleDuplicate(project)}>Duplicate</button>
+                                        <button className="copy-btn" onClick={() => handleExport(project)}>Export</button>
+                                        <button className="copy-btn danger" onClick={() => handleDelete(project)}>Delete</button>
+                                    </div>
+                                </div>
+                                <div className="tag-list">
+                                    {project.tags.map(tag => (
+                                        <span key={tag} className="tag">
+                                            #{tag}
+                                            <button onClick={() => handleRemoveTag(project, tag)} aria-label={`Remove tag ${tag}`}>×</button>
+                                        </span>
+                                    ))}
+                                    <form onSubmit={e => { e.preventDefault(); handleAddTag(project); }}>
+                                        <input
+                                            type="text"
+                                            className="tag-input"
+                                            value={tagDrafts[project.id] ?? ''}
+                                            onChange={e => setTagDrafts(prev => ({ ...prev, [project.id]: e.target.value }))}
+                                            placeholder="+ tag"
+                                            aria-label={`Add a tag to ${project.name}`}
+                                        />
+                                    </form>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
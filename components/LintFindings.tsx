@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { LintFinding } from '../linter';
+
+type LintFindingsProps = {
+    findings: LintFinding[];
+};
+
+const SEVERITY_LABELS: Record<LintFinding['severity'], string> = {
+    error: 'Error',
+    warning: 'Warning',
+    info: 'Note',
+};
+
+export const LintFindings = ({ findings }: LintFindingsProps) => {
+    if (findings.length === 0) return null;
+    return (
+        <ul className="lint-findings">
+            {findings.map((finding, i) => (
+                <li key={`${finding.rule}:${i}`} className={`lint-${finding.severity}`}>
+                    <span className="lint-severity">{SEVERITY_LABELS[finding.severity]}</span>
+                    {finding.message}
+                </li>
+            ))}
+        </ul>
+    );
+};
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import {
+    AdBeat, Chapter, Character, GeneratedSectionValue, PodcastSegment, Scene,
+    SectionKind, Shot,
+} from '../types';
+import { ShotListTable } from './ShotListTable';
+
+type SectionContentProps = {
+    kind: SectionKind;
+    value: GeneratedSectionValue;
+    sectionKeys: string[];
+};
+
+export const SectionContent = ({ kind, value, sectionKeys }: SectionContentProps) => {
+    switch (kind) {
+        case 'shotList':
+            return <ShotListTable shots={value as Shot[]} sectionKeys={sectionKeys} />;
+        case 'chapters':
+            return (
+                <ol className="chapter-list">
+                    {(value as Chapter[]).map((chapter, i) => (
+                        <li key={i}>
+                            <h4><span className="timestamp">{chapter.timestamp}</span>{chapter.title}</h4>
+                            <p>{chapter.narration}</p>
+                            <p className="visual-note">Visuals: {chapter.visuals}</p>
+                        </li>
+                    ))}
+                </ol>
+            );
+        case 'podcastSegments':
+            return (
+                <div className="podcast-segments">
+                    {(value as PodcastSegment[]).map((segment, i) => (
+                        <div key={i} className="podcast-segment">
+                            <h4>{segment.title}</h4>
+                            {segment.lines.map((line, j) => (
+                                <p key={j} className={`podcast-line ${line.role}`}>
+                                    <strong>{line.speaker}</strong> <span className="role-tag">{line.role}</span> {line.text}
+                                </p>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            );
+        case 'characters':
+            return (
+                <ul className="character-list">
+                    {(value as Character[]).map((character, i) => (
+                        <li key={i}><strong>{character.name}</strong> — {character.description}</li>
+                    ))}
+                </ul>
+            );
+        case 'scenes':
+            return (
+                <div className="play-scenes">
+                    {(value as Scene[]).map((scene, i) => (
+                        <div key={i} className="play-scene">
+                            <h4>{scene.heading}</h4>
+                            {scene.elements.map((element, j) => element.type === 'dialogue' ? (
+                                <div key={j} className="dialogue">
+                                    <span className="character-cue">{element.character}</span>
+                                    <p>{element.text}</p>
+                                </div>
+                            ) : (
+                                <p key={j} className="stage-direction">({element.text})</p>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            );
+        case 'adBeats':
+            return (
+                <table className="ad-beats">
+                    <thead>
+                        <tr><th>Time</th><th>Visual</th><th>Audio</th></tr>
+                    </thead>
+                    <tbody>
+                        {(value as AdBeat[]).map((beat, i) => (
+                            <tr key={i}>
+                                <td className="timestamp">{beat.timecode}</td>
+                                <td>{beat.visual}</td>
+                                <td>{beat.audio}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            );
+        default:
+            return <p>{value as string}</p>;
+    }
+};
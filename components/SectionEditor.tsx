@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { GeneratedSectionValue, SectionKind, Shot } from '../types';
+import { ShotListTable } from './ShotListTable';
+
+// Typing in one field is grouped into a single undo step; structural changes pass no group
+type SectionChangeHandler = (value: GeneratedSectionValue, group?: string) => void;
+
+type SectionEditorProps = {
+    kind: SectionKind;
+    value: GeneratedSectionValue;
+    // Sections a shot can be linked to, in script order
+    sectionKeys: string[];
+    onChange: SectionChangeHandler;
+};
+
+export const EDITABLE_KINDS: SectionKind[] = ['text', 'shotList'];
+
+export const SectionEditor = ({ kind, value, sectionKeys, onChange }: SectionEditorProps) => {
+    if (kind === 'shotList') {
+        return <ShotListTable shots={value as Shot[]} sectionKeys={sectionKeys} onChange={onChange} />;
+    }
+
+    const text = value as string;
+    return (
+        <textarea
+            className="section-editor"
+            value={text}
+            onChange={e => onChange(e.target.value, 'text')}
+            rows={Math.max(2, text.split('\n').length + Math.floor(text.length / 80))}
+        />
+    );
+};
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { PROVIDERS, PROVIDER_IDS, ProviderId, ProviderSettings, getDefaultSettings } from '../providers';
+
+type SettingsPanelProps = {
+    settings: ProviderSettings;
+    onSave: (settings: ProviderSettings) => void;
+    onClose: () => void;
+};
+
+export const SettingsPanel = ({ settings, onSave, onClose }: SettingsPanelProps) => {
+    const [draft, setDraft] = useState<ProviderSettings>(settings);
+    const provider = PROVIDERS[draft.provider];
+
+    const handleProviderChange = (id: ProviderId) => {
+        setDraft(id === settings.provider ? settings : getDefaultSettings(id));
+    };
+
+    return (
+        <div className="modal-backdrop" onClick={onClose}>
+            <form
+                className="library-panel settings-panel"
+                role="dialog"
+                aria-label="Model settings"
+                onClick={e => e.stopPropagation()}
+                onSubmit={e => {
+                    e.preventDefault();
+                    onSave({ ...draft, model: draft.model.trim() || provider.defaultModel, endpoint: draft.endpoint.trim() });
+                }}
+            >
+                <div className="library-header">
+                    <h2>Model Settings</h2>
+                    <button type="button" className="export-btn" onClick={onClose} aria-label="Close settings">✕</button>
+                </div>
+                <div className="input-group">
+                    <label>Provider</label>
+                    <div className="platform-group">
+                        {PROVIDER_IDS.map(id => (
+                            <button
+                                key={id}
+                                type="button"
+                                className={`platform-btn ${draft.provider === id ? 'selected' : ''}`}
+                                onClick={() => handleProviderChange(id)}
+                                aria-pressed={draft.provider === id}
+                            >
+                                {PROVIDERS[id].label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="settings-hint">{provider.description}</p>
+                </div>
+                <div className="input-group">
+                    <label htmlFor="model-input">Model</label>
+                    <input
+                        id="model-input"
+                        type="text"
+                        value={draft.model}
+                        onChange={e => setDraft({ ...draft, model: e.target.value })}
+                        placeholder={provider.defaultModel}
+                    />
+                </div>
+                {provider.usesEndpoint && (
+                    <div className="input-group">
+                        <label htmlFor="endpoint-input">Endpoint</label>
+                        <input
+                            id="endpoint-input"
+                            type="text"
+                            value={draft.endpoint}
+                            onChange={e => setDraft({ ...draft, endpoint: e.target.value })}
+                            placeholder={provider.defaultEndpoint}
+                        />
+                    </div>
+                )}
+                {provider.usesApiKey && (
+                    <div className="input-group">
+                        <label htmlFor="api-key-input">API Key</label>
+                        <input
+                            id="api-key-input"
+                            type="password"
+                            value={draft.apiKey}
+                            onChange={e => setDraft({ ...draft, apiKey: e.target.value })}
+                            placeholder={draft.provider === 'gemini' ? 'Use the key from the environment' : 'Optional for local servers'}
+                            autoComplete="off"
+                        />
+                        <p className="settings-hint">Stored in this browser only.</p>
+                    </div>
+                )}
+                <button type="submit" className="generate-btn">Save Settings</button>
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { formatTitle } from '../scriptFormat';
+import {
+    CAMERA_MOVEMENTS, FRAMINGS, SHOT_COLUMNS, SHOT_ROLLS, SHOT_TYPES, ShotColumn, createShot, getShotsDuration, sortShots,
+} from '../shotList';
+import { formatDuration } from '../timing';
+import { Shot } from '../types';
+
+type ShotListTableProps = {
+    shots: Shot[];
+    sectionKeys: string[];
+    // Without a change handler the table is read-only
+    onChange?: (shots: Shot[], group?: string) => void;
+};
+
+const OPTIONS: Partial<Record<ShotColumn, string[]>> = {
+    roll: SHOT_ROLLS,
+    shotType: SHOT_TYPES,
+    framing: FRAMINGS,
+    cameraMovement: CAMERA_MOVEMENTS,
+};
+
+// Keeps a value the lists don't know about selectable instead of silently replacing it
+const withCurrent = (options: string[], value: string) => options.includes(value) || !value ? options : [value, ...options];
+
+export const ShotListTable = ({ shots, sectionKeys, onChange }: ShotListTableProps) => {
+    const [sortColumn, setSortColumn] = useState<ShotColumn | null>(null);
+    const [descending, setDescending] = useState(false);
+    const rows = sortShots(shots, sortColumn, descending, sectionKeys);
+
+    const handleSort = (column: ShotColumn | null) => {
+        if (column && column === sortColumn) {
+            setDescending(!descending);
+        } else {
+            setSortColumn(column);
+            setDescending(false);
+        }
+    };
+
+    const updateShot = (index: number, update: Partial<Shot>, field: string) => {
+        onChange?.(shots.map((shot, i) => i === index ? { ...shot, ...update } : shot), `shot:${index}:${field}`);
+    };
+
+    const move = (from: number, to: number) => {
+        const next = [...shots];
+        const [shot] = next.splice(from, 1);
+        next.splice(to, 0, shot);
+        onChange?.(next);
+    };
+
+    const renderCell = (shot: Shot, index: number, column: ShotColumn) => {
+        const label = `${SHOT_COLUMNS.find(c => c.key === column)?.label} for shot ${index + 1}`;
+        if (!onChange) {
+            if (column === 'section') return formatTitle(shot.section);
+            if (column === 'durationSeconds') return shot.durationSeconds ? `${shot.durationSeconds}s` : '—';
+            return shot[column];
+        }
+        if (column === 'section') {
+            return (
+                <select value={shot.section} onChange={e => updateShot(index, { section: e.target.value }, column)} aria-label={label}>
+                    {withCurrent(sectionKeys, shot.section).map(key => <option key={key} value={key}>{formatTitle(key)}</option>)}
+                </select>
+            );
+        }
+        if (column === 'durationSeconds') {
+            return (
+                <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={shot.durationSeconds}
+                    onChange={e => updateShot(index, { durationSeconds: Math.max(0, Number(e.target.value) || 0) }, column)}
+                    aria-label={label}
+                />
+            );
+        }
+        const options = OPTIONS[column];
+        if (options) {
+            return (
+                <select value={shot[column]} onChange={e => updateShot(index, { [column]: e.target.value }, column)} aria-label={label}>
+                    {withCurrent(options, String(shot[column])).map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+            );
+        }
+        return <input type="text" value={shot[column]} onChange={e => updateShot(index, { [column]: e.target.value }, column)} aria-label={label} />;
+    };
+
+    return (
+        <div className={`shot-list ${onChange ? 'section-editor' : ''}`}>
+            <table className="shot-table">
+                <thead>
+                    <tr>
+                        <th aria-sort={sortColumn === null ? 'ascending' : 'none'}>
+                            <button className="sort-btn" onClick={() => handleSort(null)} title="Script order">#</button>
+                        </th>
+                        {SHOT_COLUMNS.map(column => (
+                            <th key={column.key} aria-sort={sortColumn === column.key ? (descending ? 'descending' : 'ascending') : 'none'}>
+                                <button className="sort-btn" onClick={() => handleSort(column.key)}>
+                                    {column.label}{sortColumn === column.key ? (descending ? ' ▼' : ' ▲') : ''}
+                                </button>
+                            </th>
+                        ))}
+                        {onChange && <th aria-label="Actions"></th>}
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(({ shot, index }) => (
+                        <tr key={index} className={shot.roll === 'B-roll' ? 'b-roll' : ''}>
+                            <td className="timestamp">{index + 1}</td>
+                            {SHOT_COLUMNS.map(column => <td key={column.key}>{renderCell(shot, index, column.key)}</td>)}
+                            {onChange && (
+                                <td className="shot-actions">
+                                    {sortColumn === null && (
+                                        <>
+                                            <button className="icon-btn" onClick={() => move(index, index - 1)} disabled={index === 0} aria-label="Move up">↑</button>
+                                            <button className="icon-btn" onClick={() => move(index, index + 1)} disabled={index === shots.length - 1} aria-label="Move down">↓</button>
+                                        </>
+                                    )}
+                                    <button className="icon-btn" onClick={() => onChange(shots.filter((_, i) => i !== index))} aria-label="Remove shot">✕</button>
+                                </td>
+                            )}
+                        </tr>
+                    ))}
+                </tbody>
+                <tfoot>
+                    <tr>
+                        <td colSpan={SHOT_COLUMNS.length + (onChange ? 2 : 1)}>
+                            {`${shots.length} shots · ${formatDuration(getShotsDuration(shots))} of footage`}
+                        </td>
+                    </tr>
+                </tfoot>
+            </table>
+            {onChange && (
+                <button className="copy-btn add-item-btn" onClick={() => onChange([...shots, createShot(sectionKeys[0] ?? '')])}>+ Add shot</button>
+            )}
+        </div>
+    );
+};
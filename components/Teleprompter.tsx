@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { SpokenSection, countWords } from '../scriptFormat';
+import { DEFAULT_WORDS_PER_MINUTE, MAX_WORDS_PER_MINUTE, MIN_WORDS_PER_MINUTE, formatDuration } from '../timing';
+
+type TeleprompterProps = {
+    title: string;
+    sections: SpokenSection[];
+    onClose: () => void;
+};
+
+type TeleprompterPrefs = {
+    wordsPerMinute: number;
+    fontSize: number;
+    mirrored: boolean;
+    countdownSeconds: number;
+};
+
+const PREFS_KEY = 'script-writer:teleprompter';
+const DEFAULT_PREFS: TeleprompterPrefs = { wordsPerMinute: DEFAULT_WORDS_PER_MINUTE, fontSize: 48, mirrored: false, countdownSeconds: 3 };
+const MIN_FONT_SIZE = 24;
+const MAX_FONT_SIZE = 120;
+
+const loadPrefs = (): TeleprompterPrefs => {
+    try {
+        return { ...DEFAULT_PREFS, ...JSON.parse(localStorage.getItem(PREFS_KEY) ?? '{}') };
+    } catch {
+        return DEFAULT_PREFS;
+    }
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const Teleprompter = ({ title, sections, onClose }: TeleprompterProps) => {
+    const [prefs, setPrefs] = useState<TeleprompterPrefs>(loadPrefs);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [countdown, setCountdown] = useState<number | null>(null);
+    const [progress, setProgress] = useState(0);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    // Browsers round scrollTop to whole pixels, which would swallow the sub-pixel steps of a slow scroll
+    const positionRef = useRef(0);
+    const prefsRef = useRef(prefs);
+    prefsRef.current = prefs;
+
+    const totalWords = sections.reduce((sum, section) => sum + countWords(section.text), 0);
+    const totalSeconds = totalWords / prefs.wordsPerMinute * 60;
+    const elapsedSeconds = totalSeconds * progress;
+
+    useEffect(() => {
+        localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+    }, [prefs]);
+
+    // Scroll speed is derived from the words per minute, so the last word reaches the reading line on time
+    useEffect(() => {
+        if (!isPlaying) return;
+        let frame = 0;
+        let last = performance.now();
+        const tick = (now: number) => {
+            const el = scrollRef.current;
+            if (!el) return;
+            const maxScroll = el.scrollHeight - el.clientHeight;
+            const { wordsPerMinute } = prefsRef.current;
+            const duration = totalWords / wordsPerMinute * 60;
+            if (maxScroll > 0 && duration > 0) {
+                positionRef.current = Math.min(maxScroll, positionRef.current + maxScroll / duration * (now - last) / 1000);
+                el.scrollTop = positionRef.current;
+            }
+            last = now;
+            setProgress(maxScroll > 0 ? positionRef.current / maxScroll : 1);
+            if (maxScroll <= 0 || positionRef.current >= maxScroll - 0.5) {
+                setIsPlaying(false);
+                return;
+            }
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [isPlaying, totalWords]);
+
+    useEffect(() => {
+        if (countdown === null) return;
+        if (countdown <= 0) {
+            setCountdown(null);
+            setIsPlaying(true);
+            return;
+        }
+        const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+        return () => clearTimeout(timer);
+    }, [countdown]);
+
+    const restart = () => {
+        setIsPlaying(false);
+        setCountdown(null);
+        positionRef.current = 0;
+        if (scrollRef.current) scrollRef.current.scrollTop = 0;
+        setProgress(0);
+    };
+
+    const togglePlay = () => {
+        if (countdown !== null) {
+            setCountdown(null);
+        } else if (isPlaying) {
+            setIsPlaying(false);
+        } else if (progress >= 1) {
+            restart();
+        } else if (progress === 0 && prefs.countdownSeconds > 0) {
+            setCountdown(prefs.countdownSeconds);
+        } else {
+            setIsPlaying(true);
+        }
+    };
+
+    const updatePrefs = (update: Partial<TeleprompterPrefs>) => setPrefs((prev: TeleprompterPrefs) => ({ ...prev, ...update }));
+    const changeSpeed = (delta: number) => updatePrefs({ wordsPerMinute: clamp(prefsRef.current.wordsPerMinute + delta, MIN_WORDS_PER_MINUTE, MAX_WORDS_PER_MINUTE) });
+    const changeFontSize = (delta: number) => updatePrefs({ fontSize: clamp(prefsRef.current.fontSize + delta, MIN_FONT_SIZE, MAX_FONT_SIZE) });
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.target as HTMLElement).matches('input, select')) return;
+            switch (e.key) {
+                case ' ':
+                    e.preventDefault();
+                    togglePlay();
+                    break;
+                case 'ArrowUp':
+                    e.preventDefault();
+                    changeSpeed(10);
+                    break;
+                case 'ArrowDown':
+                    e.preventDefault();
+                    changeSpeed(-10);
+                    break;
+                case '+':
+                case '=':
+                    changeFontSize(4);
+                    break;
+                case '-':
+                    changeFontSize(-4);
+                    break;
+                case 'm':
+                case 'M':
+                    updatePrefs({ mirrored: !prefsRef.current.mirrored });
+                    break;
+                case 'r':
+                case 'R':
+                    restart();
+                    break;
+                case 'Escape':
+                    onClose();
+                    break;
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    return (
+        <div className="teleprompter" role="dialog" aria-label={`Teleprompter: ${title}`}>
+            <div className="teleprompter-controls">
+                <button className="export-btn" onClick={togglePlay} title="Play/Pause (Space)">
+                    {isPlaying || countdown !== null ? 'Pause' : progress > 0 && progress < 1 ? 'Resume' : 'Start'}
+                </button>
+                <button className="export-btn" onClick={restart} title="Restart (R)">Restart</button>
+                <label>
+                    Speed
+                    <input type="range" min={MIN_WORDS_PER_MINUTE} max={MAX_WORDS_PER_MINUTE} step={10} value={prefs.wordsPerMinute} onChange={e => updatePrefs({ wordsPerMinute: Number(e.target.value) })} />
+                    <span>{prefs.wordsPerMinute} wpm</span>
+                </label>
+                <label>
+                    Size
+                    <input type="range" min={MIN_FONT_SIZE} max={MAX_FONT_SIZE} step={4} value={prefs.fontSize} onChange={e => updatePrefs({ fontSize: Number(e.target.value) })} />
+                </label>
+                <label>
+                    Countdown
+                    <select value={prefs.countdownSeconds} onChange={e => updatePrefs({ countdownSeconds: Number(e.target.value) })}>
+                        {[0, 3, 5, 10].map(n => <option key={n} value={n}>{n === 0 ? 'Off' : `${n}s`}</option>)}
+                    </select>
+                </label>
+                <button className={`export-btn ${prefs.mirrored ? 'share-btn' : ''}`} onClick={() => updatePrefs({ mirrored: !prefs.mirrored })} aria-pressed={prefs.mirrored} title="Mirror (M)">
+                    Mirror
+                </button>
+                <span className="teleprompter-time" aria-live="off">
+                    {formatDuration(elapsedSeconds)} elapsed · {formatDuration(totalSeconds - elapsedSeconds)} left
+                </span>
+                <button className="export-btn" onClick={onClose} aria-label="Close teleprompter" title="Close (Esc)">✕</button>
+            </div>
+            <div className="teleprompter-viewport">
+                <div className="teleprompter-scroll" ref={scrollRef} onScroll={e => {
+                    const el = e.currentTarget;
+                    const maxScroll = el.scrollHeight - el.clientHeight;
+                    // Only a manual scroll moves more than the rounding of our own updates
+                    if (Math.abs(el.scrollTop - positionRef.current) >= 1) positionRef.current = el.scrollTop;
+                    if (!isPlaying) setProgress(maxScroll > 0 ? el.scrollTop / maxScroll : 0);
+                }}>
+                    <div
+                        className="teleprompter-text"
+                        style={{ fontSize: `${prefs.fontSize}px`, transform: prefs.mirrored ? 'scaleX(-1)' : undefined }}
+                    >
+                        {sections.map(section => (
+                            <section key={section.key}>
+                                <h4>{section.title}</h4>
+                                {section.text.split('\n').filter(Boolean).map((paragraph, i) => <p key={i}>{paragraph}</p>)}
+                            </section>
+                        ))}
+                    </div>
+                </div>
+                <div className="teleprompter-guide" aria-hidden="true" />
+                {countdown !== null && <div className="teleprompter-countdown">{countdown}</div>}
+            </div>
+        </div>
+    );
+};
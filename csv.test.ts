@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+    it('reads quoted fields with commas, line breaks and doubled quotes', () => {
+        const text = 'Idea,Tone\r\n"Coffee, tea or water?","Say ""hi""\nthen go"\r\nPlain,Calm\r\n';
+
+        expect(parseCsv(text)).toEqual([
+            ['Idea', 'Tone'],
+            ['Coffee, tea or water?', 'Say "hi"\nthen go'],
+            ['Plain', 'Calm'],
+        ]);
+    });
+
+    it('reads semicolon-separated files', () => {
+        expect(parseCsv('Idea;Platforms\n"A; B";TikTok, Instagram')).toEqual([['Idea', 'Platforms'], ['A; B', 'TikTok, Instagram']]);
+    });
+
+    it('skips the byte order mark and blank lines', () => {
+        expect(parseCsv('﻿Idea\n\n , \nCold brew\n\n')).toEqual([['Idea'], ['Cold brew']]);
+    });
+
+    it('keeps empty fields', () => {
+        expect(parseCsv('a,,c\n,b,')).toEqual([['a', '', 'c'], ['', 'b', '']]);
+    });
+});
+
+describe('toCsv', () => {
+    it('quotes fields that need it and ends lines with CRLF', () => {
+        expect(toCsv([['Idea', 'Count'], ['Coffee, "tea"', 3], ['Two\nlines', -1]])).toBe('﻿Idea,Count\r\n"Coffee, ""tea""",3\r\n"Two\nlines",-1\r\n');
+    });
+
+    it('stops spreadsheet apps from running formulas', () => {
+        expect(toCsv([['=SUM(A1:A2)', '+1', '@cmd', '-A1*2']])).toBe("﻿'=SUM(A1:A2),'+1,'@cmd,'-A1*2\r\n");
+    });
+
+    it('leaves bullets and negative numbers alone', () => {
+        expect(toCsv([['- bullet', '-5', '-2.5', '-10%']])).toBe('﻿- bullet,-5,-2.5,-10%\r\n');
+    });
+
+    it('round-trips through parseCsv', () => {
+        const rows = [['Idea', 'Tone'], ['Coffee, "tea"', 'Line one\nLine two']];
+
+        expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+});
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const escapeCsvField = (value: string | number) => {
+    let text = String(value);
+    // Spreadsheet apps treat these prefixes as formulas; a dash only counts when it isn't a bullet or a negative number
+    if (/^[=+@]/.test(text) || (/^-\S/.test(text) && !/^-\d+(?:[.,]\d+)?%?$/.test(text))) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The byte order mark and CRLF line endings make Excel open the file as UTF-8 without an import dialog
+export const toCsv = (rows: (string | number)[][]): string => {
+    return '\uFEFF' + rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+};
+
+// RFC 4180 quoting, plus the semicolon-separated files some spreadsheet locales save
+export const parseCsv = (text: string): string[][] => {
+    const source = text.replace(/^\uFEFF/, '');
+    const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+    const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (inQuotes) {
+            if (char === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            rows.push([...row, field]);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) rows.push([...row, field]);
+    // Blank lines carry no data, and spreadsheets often leave a few at the end
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
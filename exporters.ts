@@ -0,0 +1,412 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Document, HeadingLevel, Paragraph, TextRun } from 'docx';
+import { jsPDF } from 'jspdf';
+import { SCRIPT_TYPES } from './scriptTypes';
+import { formatTitle, getOrderedSections, sectionToDocxParagraphs, sectionToMarkdown, sectionToText } from './scriptFormat';
+import { formatShot } from './shotList';
+import { AdBeat, Chapter, Character, PodcastSegment, Scene, ScriptSections, ScriptTypeId, ScriptVariant, Shot } from './types';
+
+export type ExportDocument = {
+    title: string;
+    scriptType: ScriptTypeId;
+    variants: ScriptVariant[];
+};
+
+type ScreenplayElement = {
+    type: 'sceneHeading' | 'action' | 'character' | 'dialogue' | 'note';
+    text: string;
+};
+
+type AvRow = {
+    label?: string;
+    video: string[];
+    audio: string[];
+};
+
+const NARRATOR = 'NARRATOR';
+const SCENE_HEADING_PATTERN = /^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[. ]/i;
+
+const FDX_PARAGRAPH_TYPES: Record<ScreenplayElement['type'], string> = {
+    sceneHeading: 'Scene Heading',
+    action: 'Action',
+    character: 'Character',
+    dialogue: 'Dialogue',
+    note: 'General',
+};
+
+const isSpoken = (scriptType: ScriptTypeId, key: string) => {
+    return SCRIPT_TYPES[scriptType].sections.some(section => section.key === key && section.spoken);
+};
+
+// The script's own title section wins over the project name when the type has one
+export const getDocumentTitle = (doc: ExportDocument) => {
+    const titleKey = SCRIPT_TYPES[doc.scriptType].titleKey;
+    const title = titleKey ? doc.variants[0]?.sections[titleKey] : undefined;
+    return typeof title === 'string' && title.trim() ? title.trim() : doc.title;
+};
+
+const getSubtitle = (doc: ExportDocument) => {
+    const platforms = doc.variants.map(variant => variant.platform).join(', ');
+    return `${SCRIPT_TYPES[doc.scriptType].label} · ${platforms}`;
+};
+
+const formatDraftDate = () => new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Sections that are neither performed nor shot, such as a synopsis or hashtags
+const getNotes = (scriptType: ScriptTypeId, sections: ScriptSections) => {
+    const titleKey = SCRIPT_TYPES[scriptType].titleKey;
+    return getOrderedSections(scriptType, sections)
+        .filter(({ key, kind }) => key !== titleKey && kind !== 'shotList' && !isSpoken(scriptType, key))
+        .map(({ key, kind, value }) => ({ title: formatTitle(key), text: sectionToText(kind, value) }));
+};
+
+export const toMarkdown = (doc: ExportDocument): string => {
+    const parts = [`# ${getDocumentTitle(doc)}`, `*${getSubtitle(doc)} · ${formatDraftDate()}*`];
+    doc.variants.forEach(variant => {
+        parts.push(`## ${variant.platform}`);
+        getOrderedSections(doc.scriptType, variant.sections).forEach(({ key, kind, value }) => {
+            if (key === SCRIPT_TYPES[doc.scriptType].titleKey) return;
+            parts.push(`### ${formatTitle(key)}`, sectionToMarkdown(kind, value));
+        });
+    });
+    return parts.join('\n\n') + '\n';
+};
+
+const getShots = (scriptType: ScriptTypeId, sections: ScriptSections): Shot[] => {
+    return (getOrderedSections(scriptType, sections).find(({ kind }) => kind === 'shotList')?.value as Shot[] | undefined) ?? [];
+};
+
+const getScreenplayElements = (scriptType: ScriptTypeId, sections: ScriptSections): ScreenplayElement[] => {
+    const elements: ScreenplayElement[] = [];
+    const shots = getShots(scriptType, sections);
+    const pushDialogue = (character: string, text: string) => {
+        if (text.trim()) elements.push({ type: 'character', text: character.toUpperCase() }, { type: 'dialogue', text });
+    };
+
+    getOrderedSections(scriptType, sections).forEach(({ key, kind, value }) => {
+        if (key === SCRIPT_TYPES[scriptType].titleKey) return;
+        switch (kind) {
+            case 'shotList': {
+                // Linked shots already sit under their sections; only the rest get a heading of their own
+                const unlinked = shots.filter(shot => !isSpoken(scriptType, shot.section) || sections[shot.section] === undefined);
+                if (unlinked.length > 0) elements.push({ type: 'sceneHeading', text: formatTitle(key) });
+                unlinked.forEach(shot => elements.push({ type: 'action', text: formatShot(shot) }));
+                break;
+            }
+            case 'chapters':
+                (value as Chapter[]).forEach(c => {
+                    elements.push({ type: 'sceneHeading', text: `${c.timestamp} ${c.title}` });
+                    if (c.visuals) elements.push({ type: 'action', text: c.visuals });
+                    pushDialogue(NARRATOR, c.narration);
+                });
+                break;
+            case 'podcastSegments':
+                (value as PodcastSegment[]).forEach(segment => {
+                    elements.push({ type: 'sceneHeading', text: segment.title });
+                    segment.lines.forEach(l => pushDialogue(l.speaker, l.text));
+                });
+                break;
+            case 'characters':
+                (value as Character[]).forEach(c => elements.push({ type: 'note', text: `${c.name}: ${c.description}` }));
+                break;
+            case 'scenes':
+                (value as Scene[]).forEach(scene => {
+                    elements.push({ type: 'sceneHeading', text: scene.heading });
+                    scene.elements.forEach(e => {
+                        if (e.type === 'dialogue') pushDialogue(e.character, e.text);
+                        else elements.push({ type: 'action', text: e.text });
+                    });
+                });
+                break;
+            case 'adBeats':
+                (value as AdBeat[]).forEach(b => {
+                    elements.push({ type: 'sceneHeading', text: b.timecode });
+                    if (b.visual) elements.push({ type: 'action', text: b.visual });
+                    pushDialogue(`${NARRATOR} (V.O.)`, b.audio);
+                });
+                break;
+            default:
+                if (isSpoken(scriptType, key)) {
+                    elements.push({ type: 'sceneHeading', text: formatTitle(key) });
+                    shots.filter(shot => shot.section === key).forEach(shot => elements.push({ type: 'action', text: formatShot(shot) }));
+                    pushDialogue(NARRATOR, value as string);
+                } else if ((value as string).trim()) {
+                    elements.push({ type: 'note', text: `${formatTitle(key)}: ${value}` });
+                }
+        }
+    });
+    return elements.filter(element => element.text.trim());
+};
+
+const toFountainElement = ({ type, text }: ScreenplayElement) => {
+    const trimmed = text.trim();
+    switch (type) {
+        case 'sceneHeading':
+            // Headings that don't start with INT./EXT. have to be forced with a leading period
+            return SCENE_HEADING_PATTERN.test(trimmed) ? trimmed.toUpperCase() : `.${trimmed.toUpperCase()}`;
+        case 'action':
+            // All-caps action would otherwise be read as a character cue
+            return /[a-z]/.test(trimmed) ? trimmed : `!${trimmed}`;
+        case 'dialogue':
+            return trimmed.replace(/\n\s*\n/g, '\n  \n');
+        case 'note':
+            return `[[${trimmed}]]`;
+        default:
+            return trimmed;
+    }
+};
+
+export const toFountain = (doc: ExportDocument): string => {
+    const titlePage = [
+        `Title: ${getDocumentTitle(doc)}`,
+        `Notes: ${getSubtitle(doc)}`,
+        `Draft date: ${formatDraftDate()}`,
+    ].join('\n');
+
+    const body = doc.variants.map(variant => {
+        const elements = getScreenplayElements(doc.scriptType, variant.sections);
+        let text = doc.variants.length > 1 ? `>${variant.platform.toUpperCase()}<` : '';
+        elements.forEach(element => {
+            const separator = !text ? '' : element.type === 'dialogue' ? '\n' : '\n\n';
+            text += separator + toFountainElement(element);
+        });
+        return text;
+    });
+    return `${titlePage}\n\n${body.join('\n\n===\n\n')}\n`;
+};
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const toFdxParagraph = (type: string, text: string, attributes = '') => {
+    return `    <Paragraph Type="${type}"${attributes}>\n      <Text>${escapeXml(text)}</Text>\n    </Paragraph>`;
+};
+
+export const toFdx = (doc: ExportDocument): string => {
+    const paragraphs: string[] = [];
+    doc.variants.forEach((variant, index) => {
+        if (doc.variants.length > 1) {
+            paragraphs.push(toFdxParagraph('General', variant.platform.toUpperCase(), index > 0 ? ' Alignment="Center" StartsNewPage="Yes"' : ' Alignment="Center"'));
+        }
+        getScreenplayElements(doc.scriptType, variant.sections).forEach(({ type, text }) => {
+            paragraphs.push(toFdxParagraph(FDX_PARAGRAPH_TYPES[type], type === 'sceneHeading' ? text.toUpperCase() : text.trim()));
+        });
+    });
+
+    const titlePage = [getDocumentTitle(doc), '', getSubtitle(doc), formatDraftDate()]
+        .map(text => toFdxParagraph('Title Page', text, ' Alignment="Center"'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+        '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+        '  <Content>',
+        ...paragraphs,
+        '  </Content>',
+        '  <TitlePage>',
+        '    <Content>',
+        ...titlePage.map(paragraph => paragraph.replace(/^/gm, '  ')),
+        '    </Content>',
+        '  </TitlePage>',
+        '</FinalDraft>',
+        '',
+    ].join('\n');
+};
+
+// Rows pair what is heard with what is seen, in script order
+const getAvRows = (scriptType: ScriptTypeId, sections: ScriptSections): AvRow[] => {
+    const rows: AvRow[] = [];
+    const spokenRows: Record<string, AvRow> = {};
+    let shots: Shot[] = [];
+
+    for (const { key, kind, value } of getOrderedSections(scriptType, sections)) {
+        switch (kind) {
+            case 'shotList':
+                shots = value as Shot[];
+                break;
+            case 'chapters':
+                (value as Chapter[]).forEach(c => rows.push({ label: `${c.timestamp}  ${c.title}`, video: [c.visuals], audio: [c.narration] }));
+                break;
+            case 'podcastSegments':
+                (value as PodcastSegment[]).forEach(segment => rows.push({
+                    label: segment.title,
+                    video: [],
+                    audio: segment.lines.map(l => `${l.speaker.toUpperCase()}: ${l.text}`),
+                }));
+                break;
+            case 'scenes':
+                (value as Scene[]).forEach(scene => {
+                    rows.push({ label: scene.heading.toUpperCase(), video: [], audio: [] });
+                    scene.elements.forEach(e => rows.push(e.type === 'dialogue'
+                        ? { video: [], audio: [`${e.character.toUpperCase()}: ${e.text}`] }
+                        : { video: [e.text], audio: [] }));
+                });
+                break;
+            case 'adBeats':
+                (value as AdBeat[]).forEach(b => rows.push({ label: b.timecode, video: [b.visual], audio: [b.audio] }));
+                break;
+            case 'text':
+                if (isSpoken(scriptType, key)) {
+                    const row = { label: formatTitle(key), video: [], audio: [value as string] };
+                    rows.push(row);
+                    spokenRows[key] = row;
+                }
+                break;
+        }
+    }
+
+    // Shots go next to the section they are linked to, anything else is collected at the end
+    const unlinked: AvRow = { label: 'Other Shots', video: [], audio: [] };
+    shots.forEach(shot => (spokenRows[shot.section] ?? unlinked).video.push(formatShot(shot)));
+    if (unlinked.video.length > 0) rows.push(unlinked);
+    return rows;
+};
+
+export const buildDocx = (doc: ExportDocument): Document => {
+    const paragraphs: Paragraph[] = [];
+    doc.variants.forEach((variant, index) => {
+        if (doc.variants.length > 1) {
+            paragraphs.push(new Paragraph({
+                text: variant.platform,
+                heading: HeadingLevel.TITLE,
+                pageBreakBefore: index > 0,
+                spacing: { after: 300 },
+            }));
+        }
+
+        getOrderedSections(doc.scriptType, variant.sections).forEach(({ key, kind, value }) => {
+            paragraphs.push(new Paragraph({
+                children: [new TextRun({ text: formatTitle(key), bold: true, size: 28 })],
+                heading: HeadingLevel.HEADING_1,
+                spacing: { after: 200 },
+            }));
+            paragraphs.push(...sectionToDocxParagraphs(kind, value));
+            paragraphs.push(new Paragraph(""));
+        });
+    });
+
+    return new Document({ sections: [{ children: paragraphs }] });
+};
+
+export const buildAvPdf = (doc: ExportDocument): jsPDF => {
+    const pdf = new jsPDF();
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const margin = 15;
+    const gutter = 8;
+    const contentWidth = pageWidth - margin * 2;
+    const videoWidth = (contentWidth - gutter) * 0.4;
+    const audioWidth = contentWidth - gutter - videoWidth;
+    const audioX = margin + videoWidth + gutter;
+    const lineHeight = 5;
+    const bottom = pageHeight - margin - 5;
+    let y = margin;
+
+    // Title page
+    const title = getDocumentTitle(doc);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(26);
+    const titleLines: string[] = pdf.splitTextToSize(title, contentWidth);
+    pdf.text(titleLines, pageWidth / 2, pageHeight / 3, { align: 'center' });
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(12);
+    pdf.text([getSubtitle(doc), formatDraftDate()], pageWidth / 2, pageHeight / 3 + titleLines.length * 11 + 8, { align: 'center' });
+
+    const drawColumnHeaders = () => {
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(9);
+        pdf.setTextColor(110);
+        pdf.text('VIDEO', margin, y);
+        pdf.text('AUDIO', audioX, y);
+        pdf.setDrawColor(160);
+        pdf.line(margin, y + 2, pageWidth - margin, y + 2);
+        pdf.setTextColor(0);
+        y += 8;
+    };
+
+    const ensureSpace = (height: number, withColumns: boolean) => {
+        if (y + height <= bottom) return;
+        pdf.addPage();
+        y = margin;
+        if (withColumns) drawColumnHeaders();
+    };
+
+    const splitParagraphs = (paragraphs: string[], width: number) => paragraphs
+        .filter(paragraph => paragraph.trim())
+        .flatMap((paragraph, i) => [...(i > 0 ? [''] : []), ...pdf.splitTextToSize(paragraph, width) as string[]]);
+
+    doc.variants.forEach(variant => {
+        pdf.addPage();
+        y = margin + 5;
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(16);
+        pdf.text(variant.platform, margin, y);
+        y += 10;
+
+        getNotes(doc.scriptType, variant.sections).forEach(note => {
+            ensureSpace(lineHeight * 2, false);
+            pdf.setFont('helvetica', 'bold');
+            pdf.setFontSize(11);
+            pdf.text(note.title, margin, y);
+            y += lineHeight + 1;
+            pdf.setFont('helvetica', 'normal');
+            pdf.setFontSize(10);
+            (pdf.splitTextToSize(note.text, contentWidth) as string[]).forEach(line => {
+                ensureSpace(lineHeight, false);
+                pdf.text(line, margin, y);
+                y += lineHeight;
+            });
+            y += 4;
+        });
+
+        ensureSpace(lineHeight * 4, false);
+        y += 2;
+        drawColumnHeaders();
+
+        getAvRows(doc.scriptType, variant.sections).forEach((row, index) => {
+            if (row.label) {
+                ensureSpace(lineHeight * 2, true);
+                // Skip the divider at the top of a page, where the column headers already draw one
+                if (index > 0 && y > margin + 10) {
+                    pdf.setDrawColor(225);
+                    pdf.line(margin, y - 4, pageWidth - margin, y - 4);
+                }
+                pdf.setFont('helvetica', 'bold');
+                pdf.setFontSize(10);
+                pdf.text(pdf.splitTextToSize(row.label, contentWidth)[0], margin, y);
+                y += lineHeight + 1;
+            }
+            pdf.setFont('helvetica', 'normal');
+            pdf.setFontSize(10);
+            const video = splitParagraphs(row.video, videoWidth);
+            const audio = splitParagraphs(row.audio, audioWidth);
+            for (let i = 0; i < Math.max(video.length, audio.length); i++) {
+                ensureSpace(lineHeight, true);
+                pdf.setTextColor(90);
+                if (video[i]) pdf.text(video[i], margin, y);
+                pdf.setTextColor(0);
+                if (audio[i]) pdf.text(audio[i], audioX, y);
+                y += lineHeight;
+            }
+            if (video.length + audio.length > 0) y += row.label ? 5 : 3;
+        });
+    });
+
+    // Page numbers, leaving the title page unnumbered
+    const pageCount = pdf.getNumberOfPages();
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.setTextColor(110);
+    for (let page = 2; page <= pageCount; page++) {
+        pdf.setPage(page);
+        pdf.text(`Page ${page - 1} of ${pageCount - 1}`, pageWidth / 2, pageHeight - 8, { align: 'center' });
+    }
+    return pdf;
+};
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useCallback } from 'react';
+
+type Update<T> = T | ((prev: T) => T);
+
+type HistoryState<T> = {
+    past: T[];
+    present: T;
+    future: T[];
+    lastGroup: string | null;
+    lastTime: number;
+};
+
+const MAX_HISTORY = 100;
+// Keystrokes in the same field closer together than this become one undo step
+const COALESCE_MS = 1000;
+
+const resolve = <T,>(update: Update<T>, prev: T): T => {
+    return typeof update === 'function' ? (update as (prev: T) => T)(prev) : update;
+};
+
+export const useUndoHistory = <T,>(initialValue: T) => {
+    const [history, setHistory] = useState<HistoryState<T>>({
+        past: [], present: initialValue, future: [], lastGroup: null, lastTime: 0,
+    });
+
+    // Replaces the present value without recording an undo step (e.g. while streaming)
+    const set = useCallback((update: Update<T>) => {
+        setHistory((h: HistoryState<T>) => ({ ...h, present: resolve(update, h.present) }));
+    }, []);
+
+    const commit = useCallback((update: Update<T>, group?: string) => {
+        setHistory((h: HistoryState<T>) => {
+            const now = Date.now();
+            const merge = group !== undefined && group === h.lastGroup && now - h.lastTime < COALESCE_MS;
+            return {
+                past: merge ? h.past : [...h.past, h.present].slice(-MAX_HISTORY),
+                present: resolve(update, h.present),
+                future: [],
+                lastGroup: group ?? null,
+                lastTime: now,
+            };
+        });
+    }, []);
+
+    const reset = useCallback((value: T) => {
+        setHistory({ past: [], present: value, future: [], lastGroup: null, lastTime: 0 });
+    }, []);
+
+    // Throws away the last undo step along with everything since it, for a change that failed part way
+    const discard = useCallback(() => {
+        setHistory((h: HistoryState<T>) => h.past.length === 0 ? h : {
+            ...h,
+            past: h.past.slice(0, -1),
+            present: h.past[h.past.length - 1],
+            lastGroup: null,
+            lastTime: 0,
+        });
+    }, []);
+
+    const undo = useCallback(() => {
+        setHistory((h: HistoryState<T>) => h.past.length === 0 ? h : {
+            past: h.past.slice(0, -1),
+            present: h.past[h.past.length - 1],
+            future: [h.present, ...h.future],
+            lastGroup: null,
+            lastTime: 0,
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        setHistory((h: HistoryState<T>) => h.future.length === 0 ? h : {
+            past: [...h.past, h.present],
+            present: h.future[0],
+            future: h.future.slice(1),
+            lastGroup: null,
+            lastTime: 0,
+        });
+    }, []);
+
+    return {
+        value: history.present as T,
+        set,
+        commit,
+        reset,
+        discard,
+        undo,
+        redo,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
+    };
+};
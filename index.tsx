@@ -3,27 +3,123 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, Type } from "@google/genai";
-import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
-import { jsPDF } from 'jspdf';
+import { Packer } from 'docx';
+import JSZip from 'jszip';
+import { PLATFORMS, PLATFORM_SPECS } from './platforms';
+import { SCRIPT_TYPES, SCRIPT_TYPE_IDS, getSectionSchema, getSpokenKeys, getStreamingSchema } from './scriptTypes';
+import { buildAlternativesPrompt, buildScriptPrompt, buildSectionPrompt, buildSystemInstruction, buildTranslationPrompt } from './prompts';
+import { SpokenSection, formatTitle, getOrderedSections, getSectionsText, getSpokenSections, sectionToSpeech, sectionToText } from './scriptFormat';
+import { SectionContent } from './components/SectionContent';
+import { EDITABLE_KINDS, SectionEditor } from './components/SectionEditor';
+import { useUndoHistory } from './hooks/useUndoHistory';
+import { downloadBlob } from './download';
+import { ExportDocument, buildAvPdf, buildDocx, toFdx, toFountain, toMarkdown } from './exporters';
+import { shotListToCsv } from './shotList';
+import { LibraryPanel } from './components/LibraryPanel';
+import {
+    LAST_PROJECT_KEY, clearDraftInputs, createId, createProject, getProject, loadDraftInputs, putProject, saveDraftInputs,
+} from './library';
+import { ScriptStreamSource } from './scriptStream';
+import { ContentViolationError, SchemaValidationError, generateStructured } from './structuredGeneration';
+import { ProviderSettings, createStreamSource, loadProviderSettings, saveProviderSettings } from './providers';
+import { SettingsPanel } from './components/SettingsPanel';
+import { Teleprompter } from './components/Teleprompter';
+import { AlternativesPicker } from './components/AlternativesPicker';
+import { BatchPanel } from './components/BatchPanel';
+import { BatchRowState } from './batch';
+import { LintFindings } from './components/LintFindings';
+import { LintFinding, hasLintErrors, lintVariant } from './linter';
+import { BrandProfilesPanel } from './components/BrandProfilesPanel';
+import { loadBrandProfiles, saveBrandProfiles } from './brandProfiles';
+import { DEFAULT_LANGUAGE, LANGUAGES, getLanguageName, supportsPdfExport, voiceMatchesLanguage } from './languages';
+import {
+    ALTERNATIVE_KEYS, DEFAULT_ALTERNATIVES, MAX_ALTERNATIVES, MIN_ALTERNATIVES, getAlternativesSchema, mergeAlternatives,
+} from './alternatives';
+import {
+    MAX_WORDS_PER_MINUTE, MIN_WORDS_PER_MINUTE, buildCaptionCues, clampWordsPerMinute, estimateSeconds, formatDuration,
+    loadSpeakingRate, saveSpeakingRate, toSrt, toWebVtt,
+} from './timing';
+import {
+    BrandProfile, GeneratedScript, GeneratedSectionValue, ProjectInputs, ScriptProject, ScriptSections, ScriptTypeId, ScriptVariant, Shot,
+} from './types';
 
-type VisualIdeas = {
-    shotSuggestions: string[];
-    bRoll: string[];
+type ExportScope = 'current' | 'all';
+
+// Makes value the section's current version; picking a take that is already in the history moves back to it instead of adding a copy
+const withSectionVersion = (variant: ScriptVariant, key: string, previous: GeneratedSectionValue, value: GeneratedSectionValue): ScriptVariant => {
+    const history = variant.sectionHistory?.[key] ?? { versions: [previous], current: 0 };
+    const existing = history.versions.findIndex(version => JSON.stringify(version) === JSON.stringify(value));
+    const versions = existing === -1 ? [...history.versions, value] : history.versions;
+    return {
+        ...variant,
+        sections: { ...variant.sections, [key]: value },
+        sectionHistory: { ...variant.sectionHistory, [key]: { versions, current: existing === -1 ? versions.length - 1 : existing } },
+    };
 };
-type GeneratedSectionValue = string | VisualIdeas;
 
 const App = () => {
-    const [scriptContent, setScriptContent] = useState('');
-    const [wordCount, setWordCount] = useState('');
-    const [advancedInstructions, setAdvancedInstructions] = useState('');
-    const [selectedPlatforms, setSelectedPlatforms] = useState<string[]>(['Instagram']);
-    const [generatedSections, setGeneratedSections] = useState<Record<string, GeneratedSectionValue> | null>(null);
+    // An open project restores its own inputs, so the draft only applies when there is none
+    const [draftInputs] = useState<ProjectInputs | null>(() => localStorage.getItem(LAST_PROJECT_KEY) ? null : loadDraftInputs());
+    // The draft is left alone until we know whether the last project can still be reopened
+    const [isRestoringProject, setIsRestoringProject] = useState(() => localStorage.getItem(LAST_PROJECT_KEY) !== null);
+    const [scriptContent, setScriptContent] = useState(draftInputs?.scriptContent ?? '');
+    const [wordCount, setWordCount] = useState(draftInputs?.wordCount ?? '');
+    const [advancedInstructions, setAdvancedInstructions] = useState(draftInputs?.advancedInstructions ?? '');
+    const [selectedPlatforms, setSelectedPlatforms] = useState<string[]>(draftInputs?.selectedPlatforms ?? ['Instagram']);
+    const [scriptType, setScriptType] = useState<ScriptTypeId>(draftInputs?.scriptType ?? 'social');
+    const scriptHistory = useUndoHistory<GeneratedScript | null>(null);
+    const { value: generatedScript, set: setGeneratedScript, commit: commitGeneratedScript, discard: discardScriptChange, undo, redo } = scriptHistory;
+    const [activePlatform, setActivePlatform] = useState<string | null>(null);
+    const [exportScope, setExportScope] = useState<ExportScope>('current');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [copiedKey, setCopiedKey] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    // Revisions, alternatives and translations write into the open script, so they are stopped when it is replaced
+    const sectionAbortRef = useRef<AbortController | null>(null);
+    const [revisingKey, setRevisingKey] = useState<string | null>(null);
+    const [refiningKey, setRefiningKey] = useState<string | null>(null);
+    const [refineInstruction, setRefineInstruction] = useState('');
+    const [editingKey, setEditingKey] = useState<string | null>(null);
+
+    // Library State
+    const [currentProject, setCurrentProjectState] = useState<ScriptProject | null>(null);
+    const currentProjectRef = useRef<ScriptProject | null>(null);
+    const [currentVersionId, setCurrentVersionId] = useState<string | null>(null);
+    const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+
+    // Provider State
+    const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [isTeleprompterOpen, setIsTeleprompterOpen] = useState(false);
+    const [isBatchOpen, setIsBatchOpen] = useState(false);
+    // Kept outside the panel so finished rows survive closing it
+    const [batchRows, setBatchRows] = useState<BatchRowState[]>([]);
+    const [isExportOverridden, setIsExportOverridden] = useState(false);
+
+    // Brand Profile State
+    const [brandProfiles, setBrandProfiles] = useState<BrandProfile[]>(loadBrandProfiles);
+    const [brandProfileId, setBrandProfileId] = useState<string | null>(draftInputs?.brandProfileId ?? null);
+    const [isBrandPanelOpen, setIsBrandPanelOpen] = useState(false);
+
+    // Language State
+    const [language, setLanguage] = useState(draftInputs?.language ?? DEFAULT_LANGUAGE);
+    // null shows the language the script was generated in
+    const [viewLanguage, setViewLanguage] = useState<string | null>(null);
+    const [translateTarget, setTranslateTarget] = useState('es');
+    const [translatingLanguage, setTranslatingLanguage] = useState<string | null>(null);
+    const [isSideBySide, setIsSideBySide] = useState(false);
+
+    // Alternatives State
+    const [alternativesFormKey, setAlternativesFormKey] = useState<string | null>(null);
+    const [alternativeCount, setAlternativeCount] = useState(DEFAULT_ALTERNATIVES);
+    const [includeCtaAlternatives, setIncludeCtaAlternatives] = useState(true);
+    const [expandedAlternatives, setExpandedAlternatives] = useState<string[]>([]);
+
+    // Timing State
+    const [wordsPerMinute, setWordsPerMinute] = useState<number>(loadSpeakingRate);
     
     // TTS State
     const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
@@ -31,7 +127,161 @@ const App = () => {
     const [speakingKey, setSpeakingKey] = useState<string | null>(null);
     const [isShareSupported, setIsShareSupported] = useState(false);
 
-    const platforms = ['Instagram', 'YouTube', 'Facebook', 'TikTok', 'LinkedIn', 'Website'];
+    const platforms = PLATFORMS;
+    const scriptDefinition = SCRIPT_TYPES[scriptType];
+    const generatedVariants: ScriptVariant[] | null = generatedScript?.variants ?? null;
+    const activeVariant: ScriptVariant | null = generatedVariants?.find(v => v.platform === activePlatform) ?? generatedVariants?.[0] ?? null;
+    const generatedSections: ScriptSections | null = activeVariant?.sections ?? null;
+    const scriptLanguage: string = generatedScript?.language ?? DEFAULT_LANGUAGE;
+    const translationLanguages: string[] = [...new Set(generatedVariants?.flatMap(v => Object.keys(v.translations ?? {})) ?? [])];
+    const viewedLanguage: string | null = viewLanguage && translationLanguages.includes(viewLanguage) ? viewLanguage : null;
+    // Variants without a translation for the viewed language fall back to the original
+    const getViewedSections = (variant: ScriptVariant): ScriptSections => (viewedLanguage && variant.translations?.[viewedLanguage]) || variant.sections;
+    const viewedSections: ScriptSections | null = activeVariant ? getViewedSections(activeVariant) : null;
+    const spokenSections: SpokenSection[] = generatedScript && viewedSections ? getSpokenSections(generatedScript.scriptType, viewedSections) : [];
+    const sectionSeconds: Record<string, number> = Object.fromEntries(spokenSections.map(section => [section.key, estimateSeconds(section.text, wordsPerMinute)]));
+    const totalSeconds = Object.values(sectionSeconds).reduce((sum, seconds) => sum + seconds, 0);
+    const maxDurationSeconds = activeVariant ? PLATFORM_SPECS[activeVariant.platform]?.maxDurationSeconds : undefined;
+    const sourceVariants: ScriptVariant[] = !generatedVariants ? [] : exportScope === 'all' ? generatedVariants : activeVariant ? [activeVariant] : [];
+    const scopedVariants: ScriptVariant[] = sourceVariants.map(variant => ({ ...variant, sections: getViewedSections(variant) }));
+    const brandProfile: BrandProfile | null = brandProfiles.find(p => p.id === brandProfileId) ?? null;
+    const projectInputs: ProjectInputs = { scriptContent, wordCount, advancedInstructions, selectedPlatforms, scriptType, brandProfileId, language };
+    // Lints the text that would be exported, and waits for streaming to finish so half-written sections aren't flagged
+    const lintResults: Record<string, LintFinding[]> = generatedScript && !isLoading && !(viewedLanguage && translatingLanguage === viewedLanguage)
+        ? Object.fromEntries(generatedScript.variants.map(v => [
+            v.platform,
+            lintVariant(generatedScript.scriptType, { ...v, sections: getViewedSections(v) }, { brandProfile, language: viewedLanguage ?? scriptLanguage }),
+        ]))
+        : {};
+    const activeFindings: LintFinding[] = activeVariant ? lintResults[activeVariant.platform] ?? [] : [];
+    const hasExportErrors = sourceVariants.some(v => hasLintErrors(lintResults[v.platform] ?? []));
+    const isExportBlocked = !isExportOverridden && hasExportErrors;
+    const getExportTitle = (title: string) => isExportBlocked ? 'Fix the errors found by the checker, or choose Export anyway' : title;
+    const ttsLanguage = viewedLanguage ?? scriptLanguage;
+    const isPdfSupported = supportsPdfExport(viewedLanguage ?? scriptLanguage);
+    const matchingVoices = voices.filter(voice => voiceMatchesLanguage(voice, ttsLanguage));
+    // Offer every voice when the browser has none for the language rather than an empty list
+    const voiceOptions: SpeechSynthesisVoice[] = matchingVoices.length > 0 ? matchingVoices : voices;
+
+    const setCurrentProject = (project: ScriptProject | null) => {
+        currentProjectRef.current = project;
+        setCurrentProjectState(project);
+        if (!project) localStorage.removeItem(LAST_PROJECT_KEY);
+    };
+
+    const saveProject = async (project: ScriptProject) => {
+        setCurrentProject(project);
+        try {
+            await putProject(project);
+            // Only a project that made it into the library can be reopened after a reload
+            localStorage.setItem(LAST_PROJECT_KEY, project.id);
+        } catch (e) {
+            console.error("Library Error:", e);
+            setError("Could not save the script to the library.");
+        }
+    };
+
+    const applyInputs = (inputs: ProjectInputs) => {
+        setScriptContent(inputs.scriptContent);
+        setWordCount(inputs.wordCount);
+        setAdvancedInstructions(inputs.advancedInstructions);
+        setSelectedPlatforms(inputs.selectedPlatforms);
+        setScriptType(inputs.scriptType);
+        setBrandProfileId(inputs.brandProfileId ?? null);
+        setLanguage(inputs.language ?? DEFAULT_LANGUAGE);
+    };
+
+    const openProject = (project: ScriptProject, versionId?: string) => {
+        stopSectionRequest();
+        const version = project.versions.find(v => v.id === versionId) ?? project.versions[project.versions.length - 1];
+        applyInputs(project.inputs);
+        setViewLanguage(null);
+        setIsExportOverridden(false);
+        scriptHistory.reset(version?.script ?? null);
+        setCurrentVersionId(version?.id ?? null);
+        setActivePlatform(version?.script.variants[0]?.platform ?? null);
+        setEditingKey(null);
+        setRefiningKey(null);
+        setError(null);
+        setCurrentProject(project);
+        localStorage.setItem(LAST_PROJECT_KEY, project.id);
+    };
+
+    const handleNewProject = () => {
+        stopSectionRequest();
+        setScriptContent('');
+        setWordCount('');
+        setAdvancedInstructions('');
+        scriptHistory.reset(null);
+        setCurrentVersionId(null);
+        setViewLanguage(null);
+        setEditingKey(null);
+        setError(null);
+        setCurrentProject(null);
+    };
+
+    // Picking a profile also fills in its word count and platforms, which can still be changed afterwards
+    const handleSelectBrandProfile = (id: string | null) => {
+        setBrandProfileId(id);
+        const profile = brandProfiles.find(p => p.id === id);
+        if (!profile) return;
+        if (profile.wordCount) setWordCount(profile.wordCount);
+        const platforms = profile.preferredPlatforms.filter(p => PLATFORMS.includes(p));
+        if (platforms.length > 0) setSelectedPlatforms(platforms);
+    };
+
+    const handleBrandProfilesChange = (profiles: BrandProfile[]) => {
+        setBrandProfiles(profiles);
+        saveBrandProfiles(profiles);
+    };
+
+    const saveGeneratedVersion = (script: GeneratedScript) => {
+        const version = { id: createId(), createdAt: Date.now(), script };
+        const base = currentProjectRef.current ?? createProject(projectInputs);
+        setCurrentVersionId(version.id);
+        saveProject({ ...base, inputs: projectInputs, updatedAt: Date.now(), versions: [...base.versions, version] });
+    };
+
+    // Reopen whatever was being worked on before the page was reloaded
+    useEffect(() => {
+        const lastProjectId = localStorage.getItem(LAST_PROJECT_KEY);
+        if (!lastProjectId) return;
+        // A project that was deleted or never saved hands the form back to the unsaved draft
+        const restoreDraft = () => {
+            localStorage.removeItem(LAST_PROJECT_KEY);
+            const draft = loadDraftInputs();
+            if (draft) applyInputs(draft);
+        };
+        getProject(lastProjectId)
+            .then(project => project ? openProject(project) : restoreDraft())
+            .catch(e => {
+                console.error("Library Error:", e);
+                restoreDraft();
+            })
+            .finally(() => setIsRestoringProject(false));
+    }, []);
+
+    // Autosave edits and input changes into the open project
+    useEffect(() => {
+        const project = currentProjectRef.current;
+        if (!project || isLoading) return;
+        const timer = setTimeout(() => {
+            const versions = project.versions.map(v => v.id === currentVersionId && generatedScript ? { ...v, script: generatedScript } : v);
+            if (JSON.stringify({ projectInputs, versions }) === JSON.stringify({ projectInputs: project.inputs, versions: project.versions })) return;
+            saveProject({ ...project, inputs: projectInputs, versions, updatedAt: Date.now() });
+        }, 800);
+        return () => clearTimeout(timer);
+    }, [generatedScript, scriptContent, wordCount, advancedInstructions, selectedPlatforms, scriptType, brandProfileId, language, currentVersionId, isLoading]);
+
+    // Keep unsaved inputs across reloads until the first generation creates a project for them
+    useEffect(() => {
+        if (isRestoringProject) return;
+        if (currentProject) {
+            clearDraftInputs();
+        } else {
+            saveDraftInputs(projectInputs);
+        }
+    }, [isRestoringProject, currentProject, scriptContent, wordCount, advancedInstructions, selectedPlatforms, scriptType, brandProfileId, language]);
 
     useEffect(() => {
         if (navigator.share) {
@@ -45,11 +295,6 @@ const App = () => {
             const availableVoices = window.speechSynthesis.getVoices();
             if (availableVoices.length > 0) {
                 setVoices(availableVoices);
-                if (!selectedVoiceURI) {
-                    // Try to find a default US English voice
-                    const defaultVoice = availableVoices.find(v => v.lang === 'en-US');
-                    setSelectedVoiceURI(defaultVoice ? defaultVoice.voiceURI : availableVoices[0].voiceURI);
-                }
             }
         };
         // onvoiceschanged is not always reliable, so we poll
@@ -57,7 +302,40 @@ const App = () => {
         if (window.speechSynthesis.onvoiceschanged !== undefined) {
              window.speechSynthesis.onvoiceschanged = loadVoices;
         }
-    }, [selectedVoiceURI]);
+    }, []);
+
+    // The translate menu never offers the script's own language, so keep the selection among its options
+    useEffect(() => {
+        if (translateTarget !== scriptLanguage) return;
+        setTranslateTarget(LANGUAGES.find(({ code }) => code !== scriptLanguage)!.code);
+    }, [scriptLanguage, translateTarget]);
+
+    // Switch to a voice for the language being shown, preferring the browser's default for it
+    useEffect(() => {
+        if (voiceOptions.length === 0 || voiceOptions.some(v => v.voiceURI === selectedVoiceURI)) return;
+        const defaultVoice = voiceOptions.find(v => v.default) ?? voiceOptions[0];
+        setSelectedVoiceURI(defaultVoice.voiceURI);
+    }, [voices, ttsLanguage, selectedVoiceURI]);
+
+    // Undo/redo shortcuts apply to the script, except while typing anywhere other than a section editor
+    // (such as a refine instruction) and while the teleprompter covers the script
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || isTeleprompterOpen) return;
+            const target = e.target as HTMLElement;
+            if (target.matches('input, textarea, select') && !target.closest('.section-editor')) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo, isTeleprompterOpen]);
 
     const handlePlatformToggle = (platform: string) => {
         setSelectedPlatforms(prev =>
@@ -67,100 +345,323 @@ const App = () => {
         );
     };
 
+    const updateVariant = (platform: string, update: (variant: ScriptVariant) => ScriptVariant) => {
+        setGeneratedScript((prev: GeneratedScript | null) => prev && {
+            ...prev,
+            variants: prev.variants.map(v => v.platform === platform ? update(v) : v),
+        });
+    };
+
+    const commitVariant = (platform: string, update: (variant: ScriptVariant) => ScriptVariant, group?: string) => {
+        commitGeneratedScript((prev: GeneratedScript | null) => prev && {
+            ...prev,
+            variants: prev.variants.map(v => v.platform === platform ? update(v) : v),
+        }, group);
+    };
+
+    const updateVariantSections = (platform: string, sections: ScriptSections) => {
+        updateVariant(platform, v => ({ ...v, sections }));
+    };
+
+    const updateSection = (platform: string, key: string, value: GeneratedSectionValue) => {
+        updateVariant(platform, v => ({ ...v, sections: { ...v.sections, [key]: value } }));
+    };
+
+    const generateVariant = async (source: ScriptStreamSource, platform: string, signal: AbortSignal): Promise<ScriptSections> => {
+        const request = {
+            prompt: buildScriptPrompt({ definition: scriptDefinition, platform, idea: scriptContent, wordCount, advancedInstructions, brandProfile, language }),
+            systemInstruction: buildSystemInstruction(scriptDefinition.violationKey),
+            responseSchema: getStreamingSchema(scriptDefinition),
+        };
+        const result = await generateStructured(source, request, signal, sections => updateVariantSections(platform, sections as ScriptSections));
+        return result.value as ScriptSections;
+    };
+
     const handleGenerate = async () => {
         if (!scriptContent.trim()) {
             setError("Please enter a content idea first.");
             return;
         }
-        if (selectedPlatforms.length === 0) {
+        const targetPlatforms = scriptDefinition.fixedPlatform ? [scriptDefinition.fixedPlatform] : selectedPlatforms;
+        if (targetPlatforms.length === 0) {
             setError("Please select at least one target platform.");
             return;
         }
+        stopSectionRequest();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setIsLoading(true);
         setError(null);
-        setGeneratedSections(null);
+        scriptHistory.reset({ scriptType, language, variants: targetPlatforms.map(platform => ({ platform, sections: {} })) });
+        setActivePlatform(targetPlatforms[0]);
+        setViewLanguage(null);
+        setIsExportOverridden(false);
+        setEditingKey(null);
 
-        let prompt = `Based on the following content idea, generate a script for a social media post tailored for the following platforms: ${selectedPlatforms.join(', ')}. Include a hook, introduction, main content, a call to action, detailed visual ideas (with specific shot suggestions and B-roll ideas), and relevant hashtags.\n\nIdea: "${scriptContent}"`;
+        try {
+            const source = createStreamSource(providerSettings);
+            // Each platform gets its own request so limits and tone are applied per variant
+            const results = await Promise.allSettled(targetPlatforms.map(platform => generateVariant(source, platform, controller.signal)));
 
-        if (wordCount && parseInt(wordCount) > 0) {
-            prompt += `\n\nThe main content should be approximately ${wordCount} words.`;
-        }
+            const violation = results.find(r => r.status === 'rejected' && r.reason instanceof ContentViolationError);
+            if (violation) {
+                setGeneratedScript(null);
+                setError((violation as PromiseRejectedResult).reason.message);
+                return;
+            }
+
+            const variants: ScriptVariant[] = [];
+            const failures: string[] = [];
+            results.forEach((result, i) => {
+                const platform = targetPlatforms[i];
+                if (result.status === 'fulfilled') {
+                    if (Object.keys(result.value).length > 0) variants.push({ platform, sections: result.value });
+                } else {
+                    console.error(`API Error (${platform}):`, result.reason);
+                    // Keep whatever passed validation so the user can see which field was wrong
+                    if (result.reason instanceof SchemaValidationError) variants.push({ platform, sections: result.reason.value as ScriptSections });
+                    const message = result.reason instanceof Error ? result.reason.message : "An unknown error occurred.";
+                    failures.push(targetPlatforms.length > 1 ? `${platform}: ${message}` : message);
+                }
+            });
 
-        if (advancedInstructions.trim()) {
-            prompt += `\n\nAdvanced Instructions: ${advancedInstructions.trim()}`;
+            setGeneratedScript(variants.length > 0 ? { scriptType, language, variants } : null);
+            if (variants.length > 0) {
+                saveGeneratedVersion({ scriptType, language, variants });
+                setActivePlatform((prev: string | null) => variants.some(v => v.platform === prev) ? prev : variants[0].platform);
+            }
+            if (failures.length > 0) {
+                setError(failures.join(' '));
+            }
+        } catch (e) {
+            console.error("API Error:", e);
+            setError(e instanceof Error ? e.message : "An unknown error occurred.");
+        } finally {
+            abortControllerRef.current = null;
+            setIsLoading(false);
         }
-        
-        const systemInstruction = `You are a helpful social media script generator. Your primary goal is to create engaging and appropriate content. You must adhere to the following safety policies strictly:
-1.  **Adult Content:** If the user's content idea or instructions request sexually explicit, violent, or otherwise inappropriate adult content, you MUST refuse the request. To do this, return a valid JSON object where the 'hook' field contains ONLY the exact string 'CONTENT_VIOLATION' and all other fields are empty. Do not explain why.
-2.  **Visuals Policy:** In the 'visualIdeas' section, you must not suggest or describe any visuals that include images of women. You can describe scenes, objects, text, or men, but explicitly avoid mentioning women in both 'shotSuggestions' and 'bRoll'.`;
+    };
+
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const startSectionRequest = () => {
+        sectionAbortRef.current?.abort();
+        const controller = new AbortController();
+        sectionAbortRef.current = controller;
+        return controller;
+    };
+
+    const stopSectionRequest = () => {
+        sectionAbortRef.current?.abort();
+        sectionAbortRef.current = null;
+    };
+
+    const handleReviseSection = async (key: string, instruction?: string) => {
+        if (!generatedScript || !activeVariant) return;
+        const { platform, sections } = activeVariant;
+        const definition = SCRIPT_TYPES[generatedScript.scriptType];
+        const previous = sections[key];
+        setRevisingKey(`${platform}:${key}`);
+        setRefiningKey(null);
+        setEditingKey(null);
+        setError(null);
+        const controller = startSectionRequest();
+        // The undo step is recorded with the first revised text, so a request that fails early leaves no empty step behind
+        let hasRevision = false;
+        const showRevision = (value: GeneratedSectionValue) => {
+            if (hasRevision) {
+                updateSection(platform, key, value);
+            } else {
+                hasRevision = true;
+                commitVariant(platform, v => ({ ...v, sections: { ...v.sections, [key]: value } }));
+            }
+        };
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: {
-                    systemInstruction: systemInstruction,
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            hook: { type: Type.STRING, description: "A short, attention-grabbing sentence." },
-                            introduction: { type: Type.STRING, description: "A brief introduction to the topic." },
-                            mainContent: { type: Type.STRING, description: "The main body of the script." },
-                            callToAction: { type: Type.STRING, description: "What you want the viewer to do next." },
-                            visualIdeas: {
-                                type: Type.OBJECT,
-                                description: "Detailed and actionable visual suggestions.",
-                                properties: {
-                                    shotSuggestions: {
-                                        type: Type.ARRAY,
-                                        items: { type: Type.STRING },
-                                        description: "Specific camera shot ideas (e.g., 'Close-up on the product')."
-                                    },
-                                    bRoll: {
-                                        type: Type.ARRAY,
-                                        items: { type: Type.STRING },
-                                        description: "Ideas for supplemental or cutaway footage (e.g., 'Time-lapse of clouds')."
-                                    }
-                                },
-                                required: ['shotSuggestions', 'bRoll']
-                            },
-                            hashtags: { type: Type.STRING, description: "Relevant hashtags, separated by spaces." },
-                        },
-                        required: ['hook', 'introduction', 'mainContent', 'callToAction', 'visualIdeas', 'hashtags']
-                    }
-                }
+            const source = createStreamSource(providerSettings);
+            const request = {
+                prompt: buildSectionPrompt({ definition, platform, sections, key, instruction, brandProfile, language: scriptLanguage }),
+                systemInstruction: buildSystemInstruction(key),
+                responseSchema: getSectionSchema(definition, key),
+            };
+            const result = await generateStructured(source, request, controller.signal, partial => {
+                if (partial[key] !== undefined && !controller.signal.aborted) showRevision(partial[key] as GeneratedSectionValue);
             });
+            // The script this revision belonged to has been replaced
+            if (controller.signal.aborted) return;
 
-            if (!response?.text) {
-                console.error("API Error: Response was empty.", response);
-                setError("The model did not return a script. This might be due to a content safety filter. Please try modifying your request.");
-                return;
-            }
+            const revised = result.value[key] as GeneratedSectionValue;
+            // A response that arrived in one piece still needs its undo step
+            if (!hasRevision) showRevision(revised);
+            updateVariant(platform, v => withSectionVersion(v, key, previous, revised));
+        } catch (e) {
+            if (controller.signal.aborted) return;
+            console.error("API Error:", e);
+            // Puts the section back as it was before the revision started streaming
+            if (hasRevision) discardScriptChange();
+            setError(e instanceof Error ? e.message : "An unknown error occurred.");
+        } finally {
+            if (sectionAbortRef.current === controller) sectionAbortRef.current = null;
+            setRevisingKey(null);
+        }
+    };
+
+    const handleGenerateAlternatives = async (key: string) => {
+        if (!generatedScript || !activeVariant) return;
+        const { platform, sections } = activeVariant;
+        const definition = SCRIPT_TYPES[generatedScript.scriptType];
+        // The hook form can bring along call to action alternatives in the same request
+        const keys = key === 'hook' && includeCtaAlternatives && typeof sections.callToAction === 'string' ? [key, 'callToAction'] : [key];
+        const count = Math.min(MAX_ALTERNATIVES, Math.max(MIN_ALTERNATIVES, Math.round(alternativeCount) || DEFAULT_ALTERNATIVES));
+        setRevisingKey(`${platform}:${key}`);
+        setAlternativesFormKey(null);
+        setRefiningKey(null);
+        setEditingKey(null);
+        setError(null);
+        const controller = startSectionRequest();
+
+        try {
+            const source = createStreamSource(providerSettings);
+            const request = {
+                prompt: buildAlternativesPrompt({ definition, platform, sections, keys, count, brandProfile, language: scriptLanguage }),
+                systemInstruction: buildSystemInstruction(key),
+                responseSchema: getAlternativesSchema(keys),
+            };
+            // Options only make sense side by side once they are all in, so nothing is shown while streaming
+            const result = await generateStructured(source, request, controller.signal, () => {});
+            if (result.aborted || controller.signal.aborted) return;
+            commitVariant(platform, v => keys.reduce((variant, k) => {
+                const current = String(variant.sections[k] ?? '');
+                const alternatives = mergeAlternatives(current, result.value[k] as string[]);
+                const next = { ...variant, alternatives: { ...variant.alternatives, [k]: alternatives } };
+                // An empty section takes the first option, so the selection always matches what is shown
+                const selected = alternatives.options[alternatives.selected];
+                return selected !== undefined && selected !== current ? withSectionVersion(next, k, current, selected) : next;
+            }, v));
+            setExpandedAlternatives((prev: string[]) => [...new Set([...prev, ...keys.map(k => `${platform}:${k}`)])]);
+        } catch (e) {
+            if (controller.signal.aborted) return;
+            console.error("API Error:", e);
+            setError(e instanceof Error ? e.message : "An unknown error occurred.");
+        } finally {
+            if (sectionAbortRef.current === controller) sectionAbortRef.current = null;
+            setRevisingKey(null);
+        }
+    };
+
+    const handleSelectAlternative = (key: string, index: number) => {
+        if (!activeVariant) return;
+        commitVariant(activeVariant.platform, v => {
+            const alternatives = v.alternatives?.[key];
+            if (!alternatives || index < 0 || index >= alternatives.options.length) return v;
+            // Swapping takes is recorded like a revision, so the section's version history matches what is shown
+            return {
+                ...withSectionVersion(v, key, v.sections[key], alternatives.options[index]),
+                alternatives: { ...v.alternatives, [key]: { ...alternatives, selected: index } },
+            };
+        });
+    };
+
+    const toggleAlternatives = (cardKey: string) => {
+        setExpandedAlternatives((prev: string[]) => prev.includes(cardKey) ? prev.filter(k => k !== cardKey) : [...prev, cardKey]);
+    };
+
+    // Translations keep the original's keys and list lengths, so they validate against the same schema
+    const handleTranslate = async () => {
+        if (!generatedScript || sourceVariants.length === 0) return;
+        const target = translateTarget;
+        const definition = SCRIPT_TYPES[generatedScript.scriptType];
+        setTranslatingLanguage(target);
+        setViewLanguage(target);
+        setEditingKey(null);
+        setRefiningKey(null);
+        setError(null);
+        // Record an undo step before the translation streams in
+        commitGeneratedScript((prev: GeneratedScript | null) => prev);
+
+        const controller = startSectionRequest();
+        const setTranslation = (platform: string, sections: ScriptSections) => {
+            if (controller.signal.aborted) return;
+            updateVariant(platform, v => ({ ...v, translations: { ...v.translations, [target]: sections } }));
+        };
 
-            try {
-                const jsonResponse = JSON.parse(response.text);
-                if (jsonResponse.hook === 'CONTENT_VIOLATION') {
-                    setError("Sorry, we are not able to provide this type of information.");
-                    setGeneratedSections(null);
+        try {
+            const source = createStreamSource(providerSettings);
+            const results = await Promise.allSettled(sourceVariants.map(({ platform, sections }) => generateStructured(source, {
+                prompt: buildTranslationPrompt({ definition, sections, language: target }),
+                systemInstruction: buildSystemInstruction(definition.violationKey),
+                responseSchema: getStreamingSchema(definition),
+            }, controller.signal, partial => setTranslation(platform, partial as ScriptSections))));
+            if (controller.signal.aborted) return;
+
+            const failures: string[] = [];
+            results.forEach((result, i) => {
+                const { platform, translations } = sourceVariants[i];
+                if (result.status === 'fulfilled') {
+                    setTranslation(platform, result.value.value as ScriptSections);
                     return;
                 }
-                setGeneratedSections(jsonResponse);
-            } catch (parseError) {
-                console.error("JSON Parsing Error:", parseError, "Raw Text:", response.text);
-                setError("The generated script was not in the expected format. Please try again.");
+                console.error(`Translation Error (${platform}):`, result.reason);
+                // A half-streamed translation would silently mix languages, so put back what was there before
+                updateVariant(platform, v => {
+                    const { [target]: _, ...rest } = v.translations ?? {};
+                    return { ...v, translations: translations?.[target] ? { ...rest, [target]: translations[target] } : rest };
+                });
+                const message = result.reason instanceof Error ? result.reason.message : "An unknown error occurred.";
+                failures.push(sourceVariants.length > 1 ? `${platform}: ${message}` : message);
+            });
+            if (failures.length > 0) {
+                setError(failures.join(' '));
             }
         } catch (e) {
-            console.error("API Error:", e);
+            if (controller.signal.aborted) return;
+            console.error("Translation Error:", e);
             setError(e instanceof Error ? e.message : "An unknown error occurred.");
         } finally {
-            setIsLoading(false);
+            if (sectionAbortRef.current === controller) sectionAbortRef.current = null;
+            setTranslatingLanguage(null);
         }
     };
 
-    const formatTitle = (title: string) => {
-        return title.replace(/([A-Z])/g, ' $1').replace(/^./, (str) => str.toUpperCase());
+    const handleSelectSectionVersion = (key: string, index: number) => {
+        if (!activeVariant) return;
+        commitVariant(activeVariant.platform, v => {
+            const history = v.sectionHistory?.[key];
+            if (!history || index < 0 || index >= history.versions.length) return v;
+            return {
+                ...v,
+                sections: { ...v.sections, [key]: history.versions[index] },
+                sectionHistory: { ...v.sectionHistory, [key]: { ...history, current: index } },
+            };
+        });
+    };
+
+    const handleEditSection = (key: string, value: GeneratedSectionValue, group?: string) => {
+        if (!activeVariant) return;
+        const platform = activeVariant.platform;
+        commitVariant(platform, v => {
+            const history = v.sectionHistory?.[key];
+            const alternatives = v.alternatives?.[key];
+            return {
+                ...v,
+                sections: { ...v.sections, [key]: value },
+                // Edits belong to the version being shown, so flipping away and back keeps them
+                sectionHistory: history
+                    ? { ...v.sectionHistory, [key]: { ...history, versions: history.versions.map((old, i) => i === history.current ? value : old) } }
+                    : v.sectionHistory,
+                alternatives: alternatives && typeof value === 'string'
+                    ? { ...v.alternatives, [key]: { ...alternatives, options: alternatives.options.map((old, i) => i === alternatives.selected ? value : old) } }
+                    : v.alternatives,
+            };
+        }, group && `${platform}:${key}:${group}`);
+    };
+
+    const handleRefineSubmit = (key: string) => {
+        if (!refineInstruction.trim()) return;
+        handleReviseSection(key, refineInstruction);
+        setRefineInstruction('');
     };
 
     const handleCopy = (key: string, textToCopy: string) => {
@@ -169,90 +670,90 @@ const App = () => {
         setTimeout(() => setCopiedKey(null), 2000);
     };
 
-    const getFullScriptText = (forCopy: boolean = false): string => {
-        if (!generatedSections) return '';
-        return Object.entries(generatedSections)
-            .map(([key, value]) => {
-                const title = formatTitle(key);
-                if (typeof value === 'string') {
-                    return `${title}\n${value}`;
-                } else if (value && typeof value === 'object') {
-                    const visualIdeas = value as VisualIdeas;
-                    const shots = visualIdeas.shotSuggestions.map(s => `- ${s}`).join('\n');
-                    const bRolls = visualIdeas.bRoll.map(b => `- ${b}`).join('\n');
-                    return `${title}\nShot Suggestions:\n${shots}\n\nB-Roll:\n${bRolls}`;
-                }
-                return '';
-            })
+    const getFullScriptText = (variants: ScriptVariant[] = scopedVariants): string => {
+        if (!generatedScript) return '';
+        if (variants.length === 1) return getSectionsText(generatedScript.scriptType, variants[0].sections);
+        return variants
+            .map(variant => `=== ${variant.platform} ===\n\n${getSectionsText(generatedScript.scriptType, variant.sections)}`)
             .join('\n\n');
     };
 
+    const getSpokenText = (variants: ScriptVariant[] = scopedVariants): string => {
+        if (!generatedScript) return '';
+        return variants
+            .map(variant => getOrderedSections(generatedScript.scriptType, variant.sections)
+                .map(({ kind, value }) => sectionToSpeech(kind, value))
+                .join('\n'))
+            .join('\n\n');
+    };
+
+    const getExportFileName = (extension: string) => {
+        if (scopedVariants.length === 1) return `script-${scopedVariants[0].platform.toLowerCase()}.${extension}`;
+        return `scripts.${extension}`;
+    };
+
+    const getExportDocument = (): ExportDocument | null => {
+        if (!generatedScript || scopedVariants.length === 0) return null;
+        return { title: currentProject?.name ?? 'Untitled script', scriptType: generatedScript.scriptType, variants: scopedVariants };
+    };
+
     const handleExportPdf = () => {
-        if (!generatedSections) return;
-        const doc = new jsPDF();
-        const fullText = getFullScriptText(false);
-        
-        const pageHeight = doc.internal.pageSize.height || doc.internal.pageSize.getHeight();
-        const pageWidth = doc.internal.pageSize.width || doc.internal.pageSize.getWidth();
-        const margin = 15;
-        let y = 15;
-
-        doc.setFontSize(11);
-        const textLines = doc.splitTextToSize(fullText, pageWidth - margin * 2);
-
-        textLines.forEach((line: string) => {
-            if (y > pageHeight - margin) {
-                doc.addPage();
-                y = margin;
-            }
-            doc.text(line, margin, y);
-            y += 7; 
-        });
+        const exportDocument = getExportDocument();
+        if (!exportDocument || !isPdfSupported) return;
+        buildAvPdf(exportDocument).save(getExportFileName('pdf'));
+    };
 
-        doc.save('script.pdf');
+    const handleExportText = (format: 'md' | 'fountain' | 'fdx') => {
+        const exportDocument = getExportDocument();
+        if (!exportDocument) return;
+        const [text, type] = format === 'md' ? [toMarkdown(exportDocument), 'text/markdown']
+            : format === 'fountain' ? [toFountain(exportDocument), 'text/plain']
+            : [toFdx(exportDocument), 'application/xml'];
+        downloadBlob(new Blob([text], { type: `${type};charset=utf-8` }), getExportFileName(format));
     };
 
-    const handleExportDocx = async () => {
-        if (!generatedSections) return;
-
-        const paragraphs: Paragraph[] = [];
-        Object.entries(generatedSections).forEach(([key, value]) => {
-            paragraphs.push(new Paragraph({
-                children: [new TextRun({ text: formatTitle(key), bold: true, size: 28 })],
-                heading: HeadingLevel.HEADING_1,
-                spacing: { after: 200 },
-            }));
-
-            if (typeof value === 'string') {
-                value.split('\n').forEach(line => paragraphs.push(new Paragraph({ children: [new TextRun(line)] })));
-            } else if (value && typeof value === 'object') {
-                const visualIdeas = value as VisualIdeas;
-                paragraphs.push(new Paragraph({ children: [new TextRun({ text: "Shot Suggestions", bold: true })] }));
-                visualIdeas.shotSuggestions.forEach(s => paragraphs.push(new Paragraph({ text: s, bullet: { level: 0 } })));
-                paragraphs.push(new Paragraph({ children: [new TextRun({ text: "B-Roll", bold: true })], spacing: { before: 200 } }));
-                visualIdeas.bRoll.forEach(b => paragraphs.push(new Paragraph({ text: b, bullet: { level: 0 } })));
-            }
-            paragraphs.push(new Paragraph(""));
+    const handleSpeakingRateChange = (value: number) => {
+        const rate = clampWordsPerMinute(value);
+        setWordsPerMinute(rate);
+        saveSpeakingRate(rate);
+    };
+
+    const handleExportCaptions = async (format: 'srt' | 'vtt') => {
+        if (!generatedScript || scopedVariants.length === 0) return;
+        const type = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+        const files = scopedVariants.map(variant => {
+            const cues = buildCaptionCues(getSpokenSections(generatedScript.scriptType, variant.sections), wordsPerMinute);
+            return { name: `captions-${variant.platform.toLowerCase()}.${format}`, text: format === 'srt' ? toSrt(cues) : toWebVtt(cues) };
         });
+        if (files.length === 1) {
+            downloadBlob(new Blob([files[0].text], { type: `${type};charset=utf-8` }), files[0].name);
+            return;
+        }
+        // Browsers block all but the first of several downloads started at once, so every platform goes in one ZIP
+        const zip = new JSZip();
+        files.forEach(file => zip.file(file.name, file.text));
+        downloadBlob(await zip.generateAsync({ type: 'blob' }), `captions-${format}.zip`);
+    };
+
 
-        const doc = new Document({ sections: [{ children: paragraphs }] });
-        const blob = await Packer.toBlob(doc);
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'script.docx';
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+    const handleExportShotList = (platform: string, shots: Shot[]) => {
+        const csv = shotListToCsv(shots, formatTitle);
+        downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `shot-list-${platform.toLowerCase()}.csv`);
+    };
+
+    const handleExportDocx = async () => {
+        const exportDocument = getExportDocument();
+        if (!exportDocument) return;
+        const blob = await Packer.toBlob(buildDocx(exportDocument));
+        downloadBlob(blob, getExportFileName('docx'));
     };
     
     const handleShare = async () => {
-        if (!generatedSections || !isShareSupported) return;
+        if (scopedVariants.length === 0 || !isShareSupported) return;
         try {
             await navigator.share({
                 title: 'AI Generated Script',
-                text: getFullScriptText(true),
+                text: getFullScriptText(),
             });
         } catch (err) {
             console.error('Share failed:', err);
@@ -271,6 +772,7 @@ const App = () => {
         const utterance = new SpeechSynthesisUtterance(textToSpeak);
         const selectedVoice = voices.find(v => v.voiceURI === selectedVoiceURI);
         if (selectedVoice) utterance.voice = selectedVoice;
+        utterance.lang = selectedVoice?.lang ?? ttsLanguage;
 
         utterance.onend = () => setSpeakingKey(null);
         utterance.onerror = () => {
@@ -290,6 +792,21 @@ const App = () => {
             <main className="main-content">
                 <div className="input-panel">
                     <div className="input-card">
+                        <div className="project-bar">
+                            <input
+                                type="text"
+                                value={currentProject?.name ?? ''}
+                                onChange={e => currentProject && setCurrentProject({ ...currentProject, name: e.target.value })}
+                                onBlur={() => currentProject && saveProject({ ...currentProject, name: currentProject.name.trim() || 'Untitled script', updatedAt: Date.now() })}
+                                placeholder="New project (saved when you generate)"
+                                aria-label="Project name"
+                                disabled={!currentProject || isLoading}
+                            />
+                            <button className="export-btn" onClick={handleNewProject} disabled={isLoading}>New</button>
+                            <button className="export-btn" onClick={() => setIsLibraryOpen(true)} disabled={isLoading}>Library</button>
+                            <button className="export-btn" onClick={() => setIsBatchOpen(true)} disabled={isLoading} title="Generate scripts for every idea in a CSV file">Batch</button>
+                            <button className="export-btn" onClick={() => setIsSettingsOpen(true)} disabled={isLoading} title={`Model: ${providerSettings.model}`}>Settings</button>
+                        </div>
                          <div className="input-group">
                             <label htmlFor="script-input">Content Idea</label>
                             <textarea
@@ -311,7 +828,7 @@ const App = () => {
                                     value={wordCount}
                                     onChange={(e) => setWordCount(e.target.value)}
                                     placeholder="e.g., 100"
-                                    aria-label="Optional word count for main content"
+                                    aria-label={`Optional word count for the ${scriptDefinition.wordCountScope}`}
                                     disabled={isLoading}
                                     min="1"
                                 />
@@ -330,82 +847,415 @@ const App = () => {
                             </div>
                         </div>
                         <div className="input-group">
-                            <label>Target Platforms</label>
+                            <label htmlFor="language-select">Output Language</label>
+                            <select
+                                id="language-select"
+                                className="voice-select"
+                                value={language}
+                                onChange={e => setLanguage(e.target.value)}
+                                disabled={isLoading}
+                            >
+                                {LANGUAGES.map(({ code, name }) => <option key={code} value={code}>{name}</option>)}
+                            </select>
+                        </div>
+                        <div className="input-group">
+                            <label htmlFor="brand-profile-select">Brand Profile</label>
+                            <div className="brand-profile-picker">
+                                <select
+                                    id="brand-profile-select"
+                                    className="voice-select"
+                                    value={brandProfile?.id ?? ''}
+                                    onChange={e => handleSelectBrandProfile(e.target.value || null)}
+                                    disabled={isLoading}
+                                >
+                                    <option value="">None</option>
+                                    {brandProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                                </select>
+                                <button className="export-btn" onClick={() => setIsBrandPanelOpen(true)} disabled={isLoading}>Manage</button>
+                            </div>
+                        </div>
+                        <div className="input-group">
+                            <label>Script Type</label>
                             <div className="platform-group">
-                                {platforms.map(platform => (
+                                {SCRIPT_TYPE_IDS.map(id => (
                                     <button
-                                        key={platform}
-                                        className={`platform-btn ${selectedPlatforms.includes(platform) ? 'selected' : ''}`}
-                                        onClick={() => handlePlatformToggle(platform)}
+                                        key={id}
+                                        className={`platform-btn ${scriptType === id ? 'selected' : ''}`}
+                                        onClick={() => setScriptType(id)}
                                         disabled={isLoading}
-                                        aria-pressed={selectedPlatforms.includes(platform)}
+                                        aria-pressed={scriptType === id}
+                                        title={SCRIPT_TYPES[id].description}
                                     >
-                                        {platform}
+                                        {SCRIPT_TYPES[id].label}
                                     </button>
                                 ))}
                             </div>
                         </div>
-                        <button className="generate-btn" onClick={handleGenerate} disabled={isLoading}>
-                            {isLoading ? 'Generating...' : 'Generate Script'}
-                        </button>
+                        {!scriptDefinition.fixedPlatform && (
+                            <div className="input-group">
+                                <label>Target Platforms</label>
+                                <div className="platform-group">
+                                    {platforms.map(platform => (
+                                        <button
+                                            key={platform}
+                                            className={`platform-btn ${selectedPlatforms.includes(platform) ? 'selected' : ''}`}
+                                            onClick={() => handlePlatformToggle(platform)}
+                                            disabled={isLoading}
+                                            aria-pressed={selectedPlatforms.includes(platform)}
+                                        >
+                                            {platform}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {isLoading ? (
+                            <button className="generate-btn stop-btn" onClick={handleStop}>
+                                Stop Generating
+                            </button>
+                        ) : (
+                            <button className="generate-btn" onClick={handleGenerate}>
+                                Generate Script
+                            </button>
+                        )}
                     </div>
                 </div>
 
-                {(isLoading || generatedSections || error) && (
+                {(isLoading || generatedVariants || error) && (
                     <div className="results-panel">
-                        {isLoading && <div className="loader" aria-label="Loading content"></div>}
                         {error && !isLoading && <p className="error">{error}</p>}
-                        {generatedSections && (
+                        {generatedScript && generatedVariants && activeVariant && generatedSections && (
                             <div className="sections-container">
                                 <div className="sections-header">
-                                    <h2>Generated Script</h2>
+                                    <h2>Generated {SCRIPT_TYPES[generatedScript.scriptType].label}</h2>
                                     <div className="header-actions">
-                                        {voices.length > 0 && (
+                                        {currentProject && currentProject.versions.length > 1 && !isLoading && (
+                                            <select value={currentVersionId ?? ''} onChange={e => openProject(currentProject, e.target.value)} className="voice-select" aria-label="Select a saved version">
+                                                {currentProject.versions.map((version, i) => (
+                                                    <option key={version.id} value={version.id}>{`Version ${i + 1} · ${new Date(version.createdAt).toLocaleString()}`}</option>
+                                                ))}
+                                            </select>
+                                        )}
+                                        {voiceOptions.length > 0 && (
                                             <select value={selectedVoiceURI} onChange={e => setSelectedVoiceURI(e.target.value)} className="voice-select" aria-label="Select voice for text-to-speech">
-                                                {voices.map(voice => (
+                                                {voiceOptions.map(voice => (
                                                     <option key={voice.voiceURI} value={voice.voiceURI}>{`${voice.name} (${voice.lang})`}</option>
                                                 ))}
                                             </select>
                                         )}
-                                        <button onClick={handleExportPdf} className="export-btn" title="Export as PDF">PDF</button>
-                                        <button onClick={handleExportDocx} className="export-btn" title="Export as DOCX">DOCX</button>
-                                        {isShareSupported && <button onClick={handleShare} className="export-btn share-btn" title="Share Script">Share</button>}
+                                        {generatedVariants.length > 1 && (
+                                            <select value={exportScope} onChange={e => setExportScope(e.target.value as ExportScope)} className="voice-select" aria-label="Choose which variants to copy, listen to and export">
+                                                <option value="current">{activeVariant.platform} only</option>
+                                                <option value="all">All variants</option>
+                                            </select>
+                                        )}
+                                        <button onClick={undo} className="export-btn" title="Undo (Ctrl+Z)" aria-label="Undo" disabled={isLoading || !scriptHistory.canUndo}>↶</button>
+                                        <button onClick={redo} className="export-btn" title="Redo (Ctrl+Shift+Z)" aria-label="Redo" disabled={isLoading || !scriptHistory.canRedo}>↷</button>
+                                        <button onClick={() => handleListen('full-script', getSpokenText())} className="export-btn" title={speakingKey === 'full-script' ? "Stop" : "Listen to script"}>
+                                            {speakingKey === 'full-script' ? 'Stop' : 'Listen'}
+                                        </button>
+                                        <button onClick={() => setIsTeleprompterOpen(true)} className="export-btn" title="Open teleprompter" disabled={isLoading || spokenSections.length === 0}>Teleprompter</button>
+                                        <button onClick={() => handleCopy('full-script', getFullScriptText())} className="export-btn" title="Copy script">
+                                            {copiedKey === 'full-script' ? 'Copied!' : 'Copy'}
+                                        </button>
+                                        <button
+                                            onClick={handleExportPdf}
+                                            className="export-btn"
+                                            title={isPdfSupported ? getExportTitle("Export as a two-column A/V PDF") : `PDF export can't show ${getLanguageName(viewedLanguage ?? scriptLanguage)} characters yet; use DOCX instead`}
+                                            disabled={isLoading || isExportBlocked || !isPdfSupported}
+                                        >
+                                            PDF
+                                        </button>
+                                        <button onClick={handleExportDocx} className="export-btn" title={getExportTitle("Export as DOCX")} disabled={isLoading || isExportBlocked}>DOCX</button>
+                                        <button onClick={() => handleExportText('md')} className="export-btn" title={getExportTitle("Export as Markdown")} disabled={isLoading || isExportBlocked}>MD</button>
+                                        <button onClick={() => handleExportText('fountain')} className="export-btn" title={getExportTitle("Export as Fountain screenplay")} disabled={isLoading || isExportBlocked}>Fountain</button>
+                                        <button onClick={() => handleExportText('fdx')} className="export-btn" title={getExportTitle("Export as Final Draft (FDX)")} disabled={isLoading || isExportBlocked}>FDX</button>
+                                        <button onClick={() => handleExportCaptions('srt')} className="export-btn" title={getExportTitle("Export captions as SRT")} disabled={isLoading || isExportBlocked || spokenSections.length === 0}>SRT</button>
+                                        <button onClick={() => handleExportCaptions('vtt')} className="export-btn" title={getExportTitle("Export captions as WebVTT")} disabled={isLoading || isExportBlocked || spokenSections.length === 0}>VTT</button>
+                                        {isShareSupported && <button onClick={handleShare} className="export-btn share-btn" title={getExportTitle("Share Script")} disabled={isLoading || isExportBlocked}>Share</button>}
                                     </div>
                                 </div>
-                                {Object.entries(generatedSections).map(([key, value]) => (
-                                    <div key={key} className="section-card">
-                                        <div className="section-card-header">
-                                            <h3>{formatTitle(key)}</h3>
-                                            <div className="section-card-actions">
-                                                <button className="icon-btn" onClick={() => handleListen(key, typeof value === 'string' ? value : `Shot Suggestions: ${value.shotSuggestions.join('. ')}. B-Roll: ${value.bRoll.join('. ')}`)} aria-label={`Listen to ${formatTitle(key)}`} title={speakingKey === key ? "Stop" : "Listen"}>
-                                                    {speakingKey === key ? '❚❚' : '▶'}
-                                                </button>
-                                                <button className="copy-btn" onClick={() => handleCopy(key, typeof value === 'string' ? value : `Shot Suggestions:\n${(value as VisualIdeas).shotSuggestions.join('\n')}\n\nB-Roll:\n${(value as VisualIdeas).bRoll.join('\n')}`)}>
-                                                    {copiedKey === key ? 'Copied!' : 'Copy'}
-                                                </button>
+                                {generatedVariants.length > 1 && (
+                                    <div className="variant-tabs" role="tablist">
+                                        {generatedVariants.map(variant => (
+                                            <button
+                                                key={variant.platform}
+                                                role="tab"
+                                                className={`variant-tab ${variant.platform === activeVariant.platform ? 'selected' : ''}`}
+                                                aria-selected={variant.platform === activeVariant.platform}
+                                                onClick={() => setActivePlatform(variant.platform)}
+                                            >
+                                                {variant.platform}
+                                                {(lintResults[variant.platform] ?? []).some(f => f.severity !== 'info') && (
+                                                    <span className={`lint-badge ${hasLintErrors(lintResults[variant.platform]) ? 'lint-error' : 'lint-warning'}`}>
+                                                        {lintResults[variant.platform].filter(f => f.severity !== 'info').length}
+                                                    </span>
+                                                )}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {!isLoading && (
+                                    <div className="language-bar">
+                                        {translationLanguages.length > 0 && (
+                                            <div className="variant-tabs" role="tablist" aria-label="Script language">
+                                                {[null, ...translationLanguages].map(code => (
+                                                    <button
+                                                        key={code ?? 'original'}
+                                                        role="tab"
+                                                        className={`variant-tab ${code === viewedLanguage ? 'selected' : ''}`}
+                                                        aria-selected={code === viewedLanguage}
+                                                        onClick={() => setViewLanguage(code)}
+                                                    >
+                                                        {code ? getLanguageName(code) : `${getLanguageName(scriptLanguage)} (original)`}
+                                                    </button>
+                                                ))}
                                             </div>
+                                        )}
+                                        <div className="language-actions">
+                                            <select value={translateTarget} onChange={e => setTranslateTarget(e.target.value)} className="voice-select" aria-label="Language to translate into" disabled={!!translatingLanguage}>
+                                                {LANGUAGES.filter(({ code }) => code !== scriptLanguage).map(({ code, name }) => <option key={code} value={code}>{name}</option>)}
+                                            </select>
+                                            <button className="export-btn" onClick={handleTranslate} disabled={!!translatingLanguage || !!revisingKey || translateTarget === scriptLanguage}>
+                                                {translatingLanguage ? 'Translating...' : 'Translate'}
+                                            </button>
+                                            {viewedLanguage && (
+                                                <label className="inline-toggle">
+                                                    <input type="checkbox" checked={isSideBySide} onChange={e => setIsSideBySide(e.target.checked)} />
+                                                    Side by side
+                                                </label>
+                                            )}
                                         </div>
-                                        {typeof value === 'string' ? (
-                                            <p>{value}</p>
-                                        ) : (
-                                            <div className="visual-ideas">
-                                                <h4>Shot Suggestions</h4>
-                                                <ul>
-                                                    {(value as VisualIdeas).shotSuggestions.map((shot, i) => <li key={i}>{shot}</li>)}
-                                                </ul>
-                                                <h4>B-Roll</h4>
-                                                <ul>
-                                                    {(value as VisualIdeas).bRoll.map((roll, i) => <li key={i}>{roll}</li>)}
-                                                </ul>
-                                            </div>
+                                    </div>
+                                )}
+                                {spokenSections.length > 0 && (
+                                    <div className="timing-bar">
+                                        <span>Estimated runtime <strong>{formatDuration(totalSeconds)}</strong></span>
+                                        <input
+                                            type="range"
+                                            min={MIN_WORDS_PER_MINUTE}
+                                            max={MAX_WORDS_PER_MINUTE}
+                                            step={5}
+                                            value={wordsPerMinute}
+                                            onChange={e => handleSpeakingRateChange(Number(e.target.value))}
+                                            aria-label="Speaking rate in words per minute"
+                                        />
+                                        <span>{wordsPerMinute} wpm</span>
+                                        {maxDurationSeconds !== undefined && totalSeconds > maxDurationSeconds && (
+                                            <span className="timing-warning" role="status">
+                                                {`Over the ${formatDuration(maxDurationSeconds)} limit for ${activeVariant.platform} by ${formatDuration(totalSeconds - maxDurationSeconds)}`}
+                                            </span>
                                         )}
                                     </div>
-                                ))}
+                                )}
+                                {(activeFindings.length > 0 || hasExportErrors) && (
+                                    <div className={`lint-summary ${hasLintErrors(activeFindings) ? 'has-errors' : ''}`}>
+                                        <span>
+                                            {`Checks for ${activeVariant.platform}: `}
+                                            {(['error', 'warning', 'info'] as const)
+                                                .map(severity => [severity, activeFindings.filter(f => f.severity === severity).length] as const)
+                                                .filter(([, count]) => count > 0)
+                                                .map(([severity, count]) => `${count} ${severity === 'info' ? 'note' : severity}${count === 1 ? '' : 's'}`)
+                                                .join(', ')}
+                                        </span>
+                                        {hasExportErrors && (
+                                            <label className="inline-toggle">
+                                                <input type="checkbox" checked={isExportOverridden} onChange={e => setIsExportOverridden(e.target.checked)} />
+                                                Export anyway
+                                            </label>
+                                        )}
+                                        <LintFindings findings={activeFindings.filter(f => f.section === null)} />
+                                    </div>
+                                )}
+                                {isLoading && Object.keys(generatedSections).length === 0 && <div className="loader" aria-label="Loading content"></div>}
+                                {getOrderedSections(generatedScript.scriptType, generatedSections).map(({ key, kind, value }, i, ordered) => {
+                                    const cardKey = `${activeVariant.platform}:${key}`;
+                                    const translated = viewedLanguage ? viewedSections?.[key] : undefined;
+                                    const shownValue = translated ?? value;
+                                    const isStreaming = (isLoading && i === ordered.length - 1) || revisingKey === cardKey || (!!viewedLanguage && translatingLanguage === viewedLanguage);
+                                    // Editing and regeneration work on the original; translations are read-only
+                                    const isEditable = !viewedLanguage;
+                                    const history = activeVariant.sectionHistory?.[key];
+                                    const alternatives = isEditable ? activeVariant.alternatives?.[key] : undefined;
+                                    const canAlternate = isEditable && kind === 'text' && ALTERNATIVE_KEYS.includes(key);
+                                    const findings = activeFindings.filter(f => f.section === key);
+                                    return (
+                                        <div key={cardKey} className={`section-card ${isStreaming ? 'streaming' : ''}`}>
+                                            <div className="section-card-header">
+                                                <h3>
+                                                    {formatTitle(key)}
+                                                    {sectionSeconds[key] !== undefined && <span className="section-duration" title="Estimated spoken duration">{formatDuration(sectionSeconds[key])}</span>}
+                                                </h3>
+                                                <div className="section-card-actions">
+                                                    {isEditable && history && history.versions.length > 1 && (
+                                                        <div className="version-switcher" aria-label={`Versions of ${formatTitle(key)}`}>
+                                                            <button className="icon-btn" onClick={() => handleSelectSectionVersion(key, history.current - 1)} disabled={history.current === 0 || !!revisingKey} aria-label="Previous version">‹</button>
+                                                            <span>{history.current + 1}/{history.versions.length}</span>
+                                                            <button className="icon-btn" onClick={() => handleSelectSectionVersion(key, history.current + 1)} disabled={history.current === history.versions.length - 1 || !!revisingKey} aria-label="Next version">›</button>
+                                                        </div>
+                                                    )}
+                                                    {isEditable && EDITABLE_KINDS.includes(kind) && (
+                                                        <button className="copy-btn" onClick={() => setEditingKey(editingKey === cardKey ? null : cardKey)} disabled={isLoading || !!revisingKey} aria-pressed={editingKey === cardKey}>
+                                                            {editingKey === cardKey ? 'Done' : 'Edit'}
+                                                        </button>
+                                                    )}
+                                                    {kind === 'shotList' && (
+                                                        <button className="copy-btn" onClick={() => handleExportShotList(activeVariant.platform, shownValue as Shot[])} title={getExportTitle("Export the shot list as CSV for Excel or Sheets")} disabled={isLoading || isExportBlocked}>
+                                                            CSV
+                                                        </button>
+                                                    )}
+                                                    {canAlternate && (
+                                                        <button className="copy-btn" onClick={() => setAlternativesFormKey(alternativesFormKey === cardKey ? null : cardKey)} disabled={isLoading || !!revisingKey || !!translatingLanguage} aria-expanded={alternativesFormKey === cardKey} title="Generate alternatives to compare">
+                                                            A/B…
+                                                        </button>
+                                                    )}
+                                                    {alternatives && alternatives.options.length > 1 && (
+                                                        <button className="copy-btn" onClick={() => toggleAlternatives(cardKey)} aria-pressed={expandedAlternatives.includes(cardKey)}>
+                                                            {`Compare (${alternatives.options.length})`}
+                                                        </button>
+                                                    )}
+                                                    {isEditable && (
+                                                        <>
+                                                            <button className="copy-btn" onClick={() => handleReviseSection(key)} disabled={isLoading || !!revisingKey || !!translatingLanguage}>
+                                                                {revisingKey === cardKey ? 'Working...' : 'Regenerate'}
+                                                            </button>
+                                                            <button className="copy-btn" onClick={() => setRefiningKey(refiningKey === cardKey ? null : cardKey)} disabled={isLoading || !!revisingKey || !!translatingLanguage} aria-expanded={refiningKey === cardKey}>
+                                                                Refine…
+                                                            </button>
+                                                        </>
+                                                    )}
+                                                    <button className="icon-btn" onClick={() => handleListen(cardKey, sectionToSpeech(kind, shownValue))} aria-label={`Listen to ${formatTitle(key)}`} title={speakingKey === cardKey ? "Stop" : "Listen"}>
+                                                        {speakingKey === cardKey ? '❚❚' : '▶'}
+                                                    </button>
+                                                    <button className="copy-btn" onClick={() => handleCopy(cardKey, sectionToText(kind, shownValue))}>
+                                                        {copiedKey === cardKey ? 'Copied!' : 'Copy'}
+                                                    </button>
+                                                </div>
+                                            </div>
+                                            {refiningKey === cardKey && (
+                                                <form className="refine-form" onSubmit={e => { e.preventDefault(); handleRefineSubmit(key); }}>
+                                                    <input
+                                                        type="text"
+                                                        value={refineInstruction}
+                                                        onChange={e => setRefineInstruction(e.target.value)}
+                                                        placeholder="e.g., Make it punchier, cut to 2 sentences"
+                                                        aria-label={`Instruction for refining ${formatTitle(key)}`}
+                                                        autoFocus
+                                                    />
+                                                    <button type="submit" className="export-btn" disabled={!refineInstruction.trim()}>Apply</button>
+                                                    <button type="button" className="export-btn" onClick={() => setRefiningKey(null)}>Cancel</button>
+                                                </form>
+                                            )}
+                                            <LintFindings findings={findings} />
+                                            {alternativesFormKey === cardKey && (
+                                                <form className="refine-form" onSubmit={e => { e.preventDefault(); handleGenerateAlternatives(key); }}>
+                                                    <label className="inline-toggle">
+                                                        Alternatives
+                                                        <input
+                                                            type="number"
+                                                            min={MIN_ALTERNATIVES}
+                                                            max={MAX_ALTERNATIVES}
+                                                            value={alternativeCount}
+                                                            onChange={e => setAlternativeCount(Number(e.target.value))}
+                                                        />
+                                                    </label>
+                                                    {key === 'hook' && typeof generatedSections.callToAction === 'string' && (
+                                                        <label className="inline-toggle">
+                                                            <input type="checkbox" checked={includeCtaAlternatives} onChange={e => setIncludeCtaAlternatives(e.target.checked)} />
+                                                            Also calls to action
+                                                        </label>
+                                                    )}
+                                                    <button type="submit" className="export-btn">Generate</button>
+                                                    <button type="button" className="export-btn" onClick={() => setAlternativesFormKey(null)}>Cancel</button>
+                                                </form>
+                                            )}
+                                            {alternatives && alternatives.options.length > 1 && expandedAlternatives.includes(cardKey) && (
+                                                <AlternativesPicker
+                                                    label={formatTitle(key)}
+                                                    alternatives={alternatives}
+                                                    wordsPerMinute={wordsPerMinute}
+                                                    disabled={isLoading || !!revisingKey}
+                                                    onSelect={index => handleSelectAlternative(key, index)}
+                                                />
+                                            )}
+                                            {isEditable && editingKey === cardKey ? (
+                                                <SectionEditor kind={kind} value={value} sectionKeys={getSpokenKeys(generatedScript.scriptType)} onChange={(next, group) => handleEditSection(key, next, group)} />
+                                            ) : viewedLanguage && isSideBySide ? (
+                                                <div className="translation-columns">
+                                                    <div lang={scriptLanguage}>
+                                                        <span className="translation-label">{getLanguageName(scriptLanguage)}</span>
+                                                        <SectionContent kind={kind} value={value} sectionKeys={getSpokenKeys(generatedScript.scriptType)} />
+                                                    </div>
+                                                    <div lang={viewedLanguage}>
+                                                        <span className="translation-label">{getLanguageName(viewedLanguage)}</span>
+                                                        {translated !== undefined && <SectionContent kind={kind} value={translated} sectionKeys={getSpokenKeys(generatedScript.scriptType)} />}
+                                                    </div>
+                                                </div>
+                                            ) : (
+                                                <div lang={translated !== undefined ? viewedLanguage! : scriptLanguage}>
+                                                    <SectionContent kind={kind} value={shownValue} sectionKeys={getSpokenKeys(generatedScript.scriptType)} />
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
                             </div>
                         )}
                     </div>
                 )}
             </main>
+            {isLibraryOpen && (
+                <LibraryPanel
+                    currentProjectId={currentProject?.id ?? null}
+                    onOpen={project => {
+                        openProject(project);
+                        setIsLibraryOpen(false);
+                    }}
+                    onProjectChanged={project => project.id === currentProject?.id && setCurrentProject(project)}
+                    onProjectDeleted={id => id === currentProject?.id && handleNewProject()}
+                    onClose={() => setIsLibraryOpen(false)}
+                />
+            )}
+            {isSettingsOpen && (
+                <SettingsPanel
+                    settings={providerSettings}
+                    onSave={settings => {
+                        saveProviderSettings(settings);
+                        setProviderSettings(settings);
+                        setIsSettingsOpen(false);
+                    }}
+                    onClose={() => setIsSettingsOpen(false)}
+                />
+            )}
+            {isBrandPanelOpen && (
+                <BrandProfilesPanel
+                    profiles={brandProfiles}
+                    selectedId={brandProfile?.id ?? null}
+                    onChange={handleBrandProfilesChange}
+                    onSelect={id => handleSelectBrandProfile(id)}
+                    onClose={() => setIsBrandPanelOpen(false)}
+                />
+            )}
+            {isBatchOpen && (
+                <BatchPanel
+                    definition={scriptDefinition}
+                    defaultPlatforms={selectedPlatforms}
+                    brandProfile={brandProfile}
+                    language={language}
+                    providerSettings={providerSettings}
+                    wordsPerMinute={wordsPerMinute}
+                    rows={batchRows}
+                    setRows={setBatchRows}
+                    onClose={() => setIsBatchOpen(false)}
+                />
+            )}
+            {isTeleprompterOpen && generatedScript && activeVariant && (
+                <Teleprompter
+                    title={`${currentProject?.name ?? 'Script'} — ${activeVariant.platform}${viewedLanguage ? ` (${getLanguageName(viewedLanguage)})` : ''}`}
+                    sections={spokenSections}
+                    onClose={() => setIsTeleprompterOpen(false)}
+                />
+            )}
         </div>
     );
 };
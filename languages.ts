@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type Language = {
+    code: string;
+    name: string;
+};
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const LANGUAGES: Language[] = [
+    { code: 'en', name: 'English' },
+    { code: 'es', name: 'Spanish' },
+    { code: 'fr', name: 'French' },
+    { code: 'de', name: 'German' },
+    { code: 'it', name: 'Italian' },
+    { code: 'pt', name: 'Portuguese' },
+    { code: 'nl', name: 'Dutch' },
+    { code: 'pl', name: 'Polish' },
+    { code: 'tr', name: 'Turkish' },
+    { code: 'ru', name: 'Russian' },
+    { code: 'ar', name: 'Arabic' },
+    { code: 'hi', name: 'Hindi' },
+    { code: 'ur', name: 'Urdu' },
+    { code: 'bn', name: 'Bengali' },
+    { code: 'id', name: 'Indonesian' },
+    { code: 'ja', name: 'Japanese' },
+    { code: 'ko', name: 'Korean' },
+    { code: 'zh', name: 'Chinese' },
+];
+
+// The PDF export uses jsPDF's built-in fonts, which only cover Western European (WinAnsi) characters
+const PDF_LANGUAGES = ['en', 'es', 'fr', 'de', 'it', 'pt', 'nl', 'id'];
+
+export const getLanguageName = (code: string) => LANGUAGES.find(language => language.code === code)?.name ?? code;
+
+export const supportsPdfExport = (code: string) => PDF_LANGUAGES.includes(code.toLowerCase().split('-')[0]);
+
+// Voices report tags like "es-MX" or "es_ES", so only the primary language subtag is compared
+export const voiceMatchesLanguage = (voice: SpeechSynthesisVoice, code: string) => {
+    return voice.lang.toLowerCase().split(/[-_]/)[0] === code.toLowerCase().split('-')[0];
+};
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseProjectFile } from './library';
+
+const toProjectFile = (inputs: Record<string, unknown>) => JSON.stringify({
+    format: 'script-writer-project',
+    formatVersion: 1,
+    project: { id: 'p1', name: 'Cold brew', createdAt: 1, updatedAt: 2, tags: [], inputs, versions: [] },
+});
+
+const OLD_INPUTS = {
+    scriptContent: 'Cold brew at home',
+    wordCount: '120',
+    advancedInstructions: '',
+    selectedPlatforms: ['TikTok'],
+    scriptType: 'social',
+    brandProfileId: null,
+};
+
+describe('parseProjectFile', () => {
+    it('gives projects saved before languages existed the default language', () => {
+        expect(parseProjectFile(toProjectFile(OLD_INPUTS)).inputs).toEqual({ ...OLD_INPUTS, language: 'en' });
+    });
+
+    it('replaces an unknown language with the default', () => {
+        expect(parseProjectFile(toProjectFile({ ...OLD_INPUTS, language: 'xx' })).inputs.language).toBe('en');
+    });
+
+    it('keeps a supported language', () => {
+        expect(parseProjectFile(toProjectFile({ ...OLD_INPUTS, language: 'fr' })).inputs.language).toBe('fr');
+    });
+
+    // Autosave compares the form's inputs with the saved ones as JSON, so the keys must come out in the form's order
+    it('orders the inputs like the form so an unchanged project is not saved again', () => {
+        const inputs = parseProjectFile(toProjectFile({ language: 'fr', ...OLD_INPUTS })).inputs;
+
+        expect(Object.keys(inputs)).toEqual(['scriptContent', 'wordCount', 'advancedInstructions', 'selectedPlatforms', 'scriptType', 'brandProfileId', 'language']);
+    });
+
+    it('fills in missing inputs and drops unknown values', () => {
+        expect(parseProjectFile(toProjectFile({ selectedPlatforms: ['TikTok', 'MySpace'], scriptType: 'sonnet' })).inputs).toEqual({
+            scriptContent: '',
+            wordCount: '',
+            advancedInstructions: '',
+            selectedPlatforms: ['TikTok'],
+            scriptType: 'social',
+            brandProfileId: null,
+            language: 'en',
+        });
+    });
+});
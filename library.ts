@@ -0,0 +1,264 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DEFAULT_LANGUAGE, LANGUAGES } from './languages';
+import { PLATFORMS } from './platforms';
+import { SCRIPT_TYPES, SCRIPT_TYPE_IDS, ScriptTypeDefinition, getSectionSchema } from './scriptTypes';
+import { getSectionsText } from './scriptFormat';
+import { fromLegacyVisualIdeas } from './shotList';
+import { validateAgainstSchema } from './validation';
+import {
+    GeneratedSectionValue, ProjectInputs, ScriptProject, ScriptSections, ScriptTypeId, ScriptVariant, SectionAlternatives, SectionHistory,
+} from './types';
+
+const DB_NAME = 'script-writer';
+const DB_VERSION = 1;
+const STORE_NAME = 'projects';
+const FILE_FORMAT = 'script-writer-project';
+const FILE_FORMAT_VERSION = 1;
+
+export const LAST_PROJECT_KEY = 'script-writer:lastProjectId';
+const DRAFT_INPUTS_KEY = 'script-writer:draftInputs';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const withStore = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+export const createId = () => crypto.randomUUID();
+
+type LegacyVisualIdeas = { shotSuggestions?: string[]; bRoll?: string[] };
+
+// Social scripts saved before the shot list kept their visuals as two plain lists with no section links
+const LEGACY_SHOT_SECTION = 'mainContent';
+
+const upgradeVariant = (variant: ScriptVariant): ScriptVariant => {
+    const { visualIdeas, ...sections } = (variant.sections ?? {}) as ScriptSections & { visualIdeas?: GeneratedSectionValue };
+    if (!visualIdeas || sections.shotList) return variant;
+    const { visualIdeas: history, ...sectionHistory } = variant.sectionHistory ?? {};
+    return {
+        ...variant,
+        sections: { ...sections, shotList: fromLegacyVisualIdeas(visualIdeas as LegacyVisualIdeas, LEGACY_SHOT_SECTION) },
+        sectionHistory: history ? {
+            ...sectionHistory,
+            shotList: { ...history, versions: history.versions.map(value => fromLegacyVisualIdeas(value as LegacyVisualIdeas, LEGACY_SHOT_SECTION)) },
+        } : variant.sectionHistory,
+    };
+};
+
+const toText = (value: unknown) => typeof value === 'string' ? value : typeof value === 'number' ? String(value) : '';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isIndex = (value: unknown, length: number): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+// The inputs drive the form directly, so anything missing or unknown falls back to what a new project starts with
+const normalizeInputs = (data: unknown): ProjectInputs => {
+    const inputs = isRecord(data) ? data : {};
+    return {
+        scriptContent: toText(inputs.scriptContent),
+        wordCount: toText(inputs.wordCount),
+        advancedInstructions: toText(inputs.advancedInstructions),
+        selectedPlatforms: Array.isArray(inputs.selectedPlatforms) ? inputs.selectedPlatforms.filter(platform => PLATFORMS.includes(platform)) : [],
+        scriptType: SCRIPT_TYPE_IDS.includes(inputs.scriptType as ScriptTypeId) ? inputs.scriptType as ScriptTypeId : 'social',
+        brandProfileId: typeof inputs.brandProfileId === 'string' ? inputs.brandProfileId : null,
+        // Projects saved before scripts had a language were written in the default one
+        language: typeof inputs.language === 'string' && LANGUAGES.some(({ code }) => code === inputs.language) ? inputs.language : DEFAULT_LANGUAGE,
+    };
+};
+
+// Inputs typed before the first generation have no project to live in yet, so they are kept here until one exists
+export const loadDraftInputs = (): ProjectInputs | null => {
+    try {
+        const saved = localStorage.getItem(DRAFT_INPUTS_KEY);
+        return saved ? normalizeInputs(JSON.parse(saved)) : null;
+    } catch (e) {
+        console.error("Library Error:", e);
+        return null;
+    }
+};
+
+export const saveDraftInputs = (inputs: ProjectInputs) => {
+    localStorage.setItem(DRAFT_INPUTS_KEY, JSON.stringify(inputs));
+};
+
+export const clearDraftInputs = () => {
+    localStorage.removeItem(DRAFT_INPUTS_KEY);
+};
+
+const validateSections = (definition: ScriptTypeDefinition, sections: unknown) => {
+    return validateAgainstSchema<ScriptSections>(definition.responseSchema, sections).value;
+};
+
+const validateSection = (definition: ScriptTypeDefinition, key: string, value: unknown) => {
+    return validateAgainstSchema<ScriptSections>(getSectionSchema(definition, key), { [key]: value }).value[key];
+};
+
+// Extras saved alongside the sections are optional, so a damaged entry is dropped rather than failing the import
+const validateVariant = (definition: ScriptTypeDefinition, variant: ScriptVariant): ScriptVariant => {
+    const sectionKeys = definition.sections.map(section => section.key);
+    const sectionHistory = Object.entries(isRecord(variant.sectionHistory) ? variant.sectionHistory : {})
+        .filter(([key, history]) => sectionKeys.includes(key) && isRecord(history) && Array.isArray(history.versions) && isIndex(history.current, history.versions.length))
+        .map(([key, history]): [string, SectionHistory] => [key, { ...history, versions: history.versions.map(value => validateSection(definition, key, value)) }]);
+    const alternatives = Object.entries(isRecord(variant.alternatives) ? variant.alternatives : {})
+        .filter(([key, entry]) => sectionKeys.includes(key) && isRecord(entry) && Array.isArray(entry.options)
+            && entry.options.every(option => typeof option === 'string') && isIndex(entry.selected, entry.options.length))
+        .map(([key, entry]): [string, SectionAlternatives] => [key, { options: entry.options, selected: entry.selected }]);
+    const translations = Object.entries(isRecord(variant.translations) ? variant.translations : {})
+        .filter(([code, sections]) => LANGUAGES.some(language => language.code === code) && isRecord(sections))
+        .map(([code, sections]): [string, ScriptSections] => [code, validateSections(definition, sections)]);
+    return {
+        platform: toText(variant.platform),
+        sections: validateSections(definition, variant.sections),
+        ...(sectionHistory.length > 0 ? { sectionHistory: Object.fromEntries(sectionHistory) } : {}),
+        ...(alternatives.length > 0 ? { alternatives: Object.fromEntries(alternatives) } : {}),
+        ...(translations.length > 0 ? { translations: Object.fromEntries(translations) } : {}),
+    };
+};
+
+const upgradeProject = (project: ScriptProject): ScriptProject => ({
+    ...project,
+    inputs: normalizeInputs(project.inputs),
+    versions: project.versions.map(version => ({
+        ...version,
+        script: { ...version.script, variants: version.script.variants.map(upgradeVariant) },
+    })),
+});
+
+export const listProjects = async (): Promise<ScriptProject[]> => {
+    const projects = await withStore<ScriptProject[]>('readonly', store => store.getAll());
+    return projects.map(upgradeProject).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<ScriptProject | undefined> => {
+    const project = await withStore<ScriptProject | undefined>('readonly', store => store.get(id));
+    return project && upgradeProject(project);
+};
+
+export const putProject = async (project: ScriptProject): Promise<void> => {
+    await withStore('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    await withStore('readwrite', store => store.delete(id));
+};
+
+export const createProject = (inputs: ProjectInputs): ScriptProject => {
+    const now = Date.now();
+    const idea = inputs.scriptContent.trim().replace(/\s+/g, ' ');
+    return {
+        id: createId(),
+        name: idea ? (idea.length > 60 ? `${idea.slice(0, 57)}...` : idea) : 'Untitled script',
+        tags: [],
+        createdAt: now,
+        updatedAt: now,
+        inputs,
+        versions: [],
+    };
+};
+
+export const duplicateProject = (project: ScriptProject): ScriptProject => {
+    const now = Date.now();
+    return {
+        ...structuredClone(project),
+        id: createId(),
+        name: `${project.name} (copy)`,
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+const getSearchText = (project: ScriptProject) => {
+    const scripts = project.versions.flatMap(({ script }) => script.variants.map(variant =>
+        SCRIPT_TYPES[script.scriptType] ? getSectionsText(script.scriptType, variant.sections) : ''));
+    return [
+        project.name,
+        project.tags.join(' '),
+        project.inputs.scriptContent,
+        project.inputs.advancedInstructions,
+        ...scripts,
+    ].join('\n').toLowerCase();
+};
+
+// Every word of the query must appear somewhere in the project's inputs, tags or script text
+export const searchProjects = (projects: ScriptProject[], query: string, tag?: string | null): ScriptProject[] => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return projects.filter(project => {
+        if (tag && !project.tags.includes(tag)) return false;
+        if (terms.length === 0) return true;
+        const text = getSearchText(project);
+        return terms.every(term => text.includes(term));
+    });
+};
+
+export const serializeProject = (project: ScriptProject): string => {
+    return JSON.stringify({ format: FILE_FORMAT, formatVersion: FILE_FORMAT_VERSION, project }, null, 2);
+};
+
+export const parseProjectFile = (text: string): ScriptProject => {
+    let data;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+    if (data?.format !== FILE_FORMAT || !data.project) {
+        throw new Error("The file is not a Script Writer project.");
+    }
+    if (data.formatVersion > FILE_FORMAT_VERSION) {
+        throw new Error("The project was exported by a newer version of Script Writer.");
+    }
+    const project = data.project as ScriptProject;
+    if (typeof project.id !== 'string' || typeof project.name !== 'string' || !isRecord(project.inputs) || !Array.isArray(project.versions)) {
+        throw new Error("The project file is incomplete.");
+    }
+    // Scripts from another machine go through the same schema checks as fresh model output
+    const versions = project.versions.map(version => {
+        const definition = SCRIPT_TYPES[version.script?.scriptType];
+        if (!definition || !Array.isArray(version.script.variants) || !version.script.variants.every(isRecord)) {
+            throw new Error("The project file contains a script of an unknown type.");
+        }
+        const { language, ...script } = version.script;
+        return {
+            id: typeof version.id === 'string' ? version.id : createId(),
+            createdAt: typeof version.createdAt === 'number' ? version.createdAt : Date.now(),
+            script: {
+                ...script,
+                ...(typeof language === 'string' && LANGUAGES.some(({ code }) => code === language) ? { language } : {}),
+                variants: script.variants.map(upgradeVariant).map(variant => validateVariant(definition, variant)),
+            },
+        };
+    });
+    return {
+        ...project,
+        createdAt: typeof project.createdAt === 'number' ? project.createdAt : Date.now(),
+        updatedAt: typeof project.updatedAt === 'number' ? project.updatedAt : Date.now(),
+        tags: Array.isArray(project.tags) ? project.tags.filter(tag => typeof tag === 'string') : [],
+        inputs: normalizeInputs(project.inputs),
+        versions,
+    };
+};
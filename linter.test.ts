@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { LintFinding, getReadingGrade, hasLintErrors, lintVariant } from './linter';
+import { BrandProfile, ScriptSections } from './types';
+
+const CLEAN: ScriptSections = {
+    hook: 'Cold brew is easier than you think.',
+    introduction: 'You only need coffee, water and a jar.',
+    mainContent: 'Grind the beans coarse. Stir them into cold water. Wait twelve hours, then strain.',
+    callToAction: 'Follow for more easy coffee ideas.',
+    shotList: [],
+    hashtags: '#coldbrew #coffee',
+};
+
+const BRAND: BrandProfile = {
+    id: 'b1',
+    name: 'Bean Co',
+    voice: '',
+    audience: '',
+    requiredPhrases: ['Bean Co'],
+    forbiddenPhrases: ['cheap'],
+    callToAction: '',
+    hashtags: '',
+    preferredPlatforms: [],
+    wordCount: '',
+    updatedAt: 0,
+};
+
+const lint = (sections: Partial<ScriptSections>, platform = 'TikTok', options: { brandProfile?: BrandProfile | null; language?: string } = {}) => {
+    return lintVariant('social', { platform, sections: { ...CLEAN, ...sections } as ScriptSections }, { language: 'en', ...options });
+};
+
+const rules = (findings: LintFinding[]) => findings.map(finding => `${finding.rule}:${finding.severity}`);
+
+describe('lintVariant', () => {
+    it('finds nothing wrong with a short, clear script', () => {
+        expect(lint({})).toEqual([]);
+    });
+
+    describe('caption length', () => {
+        it('allows captions within the platform limit', () => {
+            expect(rules(lint({ mainContent: 'Stir. '.repeat(300) }, 'TikTok'))).not.toContain('captionLimit:error');
+        });
+
+        it('reports captions over the platform limit as an error', () => {
+            const findings = lint({ mainContent: 'Stir. '.repeat(400) }, 'Facebook');
+
+            expect(rules(findings)).toContain('captionLimit:error');
+            expect(findings.find(f => f.rule === 'captionLimit')?.message).toContain('over the 2000 limit for Facebook');
+            expect(hasLintErrors(findings)).toBe(true);
+        });
+
+        it('notes captions close to the limit', () => {
+            expect(rules(lint({ mainContent: 'Stir. '.repeat(310) }, 'Facebook'))).toContain('captionLimit:info');
+        });
+    });
+
+    describe('hashtags', () => {
+        it('allows up to the platform hashtag limit', () => {
+            expect(lint({ hashtags: '#a1 #b2 #c3' }, 'YouTube')).toEqual([]);
+        });
+
+        it('reports too many hashtags as an error', () => {
+            expect(rules(lint({ hashtags: '#a1 #b2 #c3 #d4' }, 'YouTube'))).toEqual(['hashtags:error']);
+        });
+
+        it('reports any hashtags where the platform allows none', () => {
+            expect(rules(lint({ hashtags: '#coffee' }, 'Website'))).toEqual(['hashtags:error']);
+        });
+
+        it('warns about missing "#", malformed and repeated tags', () => {
+            const findings = lint({ hashtags: 'coffee #cold-brew #Tea #tea' });
+
+            expect(findings.map(f => f.message)).toEqual([
+                'Missing "#": coffee',
+                'Hashtags can only contain letters, numbers and underscores and need at least one letter: #cold-brew',
+                'Repeated hashtags: #tea',
+            ]);
+        });
+    });
+
+    describe('call to action', () => {
+        it('accepts a call to action that asks for something', () => {
+            expect(rules(lint({ callToAction: 'Save this for your next coffee run.' }))).not.toContain('callToAction:warning');
+        });
+
+        it('reports a missing call to action as an error', () => {
+            expect(lint({ callToAction: '  ' })).toEqual([{ rule: 'callToAction', severity: 'error', section: 'callToAction', message: 'The script has no call to action.' }]);
+        });
+
+        it('warns when the call to action asks for nothing specific', () => {
+            expect(rules(lint({ callToAction: 'Thanks so much for being here.' }))).toEqual(['callToAction:warning']);
+        });
+
+        it('only checks the verbs of English scripts', () => {
+            expect(lint({ callToAction: 'Merci beaucoup.' }, 'TikTok', { language: 'fr' })).toEqual([]);
+        });
+    });
+
+    describe('brand profile phrases', () => {
+        it('passes when required phrases are used and forbidden ones are not', () => {
+            expect(lint({ hook: 'Bean Co makes cold brew easy.' }, 'TikTok', { brandProfile: BRAND })).toEqual([]);
+        });
+
+        it('reports a forbidden phrase on the section that uses it', () => {
+            const findings = lint({ hook: 'Bean Co cold brew is not cheap.' }, 'TikTok', { brandProfile: BRAND });
+
+            expect(findings).toEqual([{ rule: 'forbiddenPhrase', severity: 'error', section: 'hook', message: 'Uses "cheap", which the Bean Co brand profile forbids.' }]);
+        });
+
+        it('matches forbidden phrases as whole words only', () => {
+            expect(lint({ hook: 'Bean Co cold brew, cheaply explained.' }, 'TikTok', { brandProfile: BRAND })).toEqual([]);
+        });
+
+        it('reports a required phrase that is missing', () => {
+            expect(lint({}, 'TikTok', { brandProfile: BRAND })).toEqual([
+                { rule: 'requiredPhrase', severity: 'error', section: null, message: 'Doesn\'t include "Bean Co", which the Bean Co brand profile requires.' },
+            ]);
+        });
+    });
+
+    describe('sensitive terms', () => {
+        it('warns about claims platforms restrict', () => {
+            expect(lint({ mainContent: 'You get guaranteed results.' })).toEqual([
+                { rule: 'sensitiveTerm', severity: 'warning', section: 'mainContent', message: '"guaranteed results" is often restricted or needs a disclaimer on social platforms.' },
+            ]);
+        });
+    });
+
+    describe('readability', () => {
+        const DENSE = 'Extraction methodologies fundamentally differentiate organoleptic characteristics, particularly regarding acidity, bitterness and aromatic complexity.';
+
+        it('warns about text above the target grade', () => {
+            expect(rules(lint({ mainContent: DENSE }))).toEqual(['readability:warning']);
+        });
+
+        it('skips the grade for languages it is not calibrated for', () => {
+            expect(lint({ mainContent: DENSE, callToAction: 'Folgt uns.' }, 'TikTok', { language: 'de' })).toEqual([]);
+        });
+
+        it('warns about sentences over 25 words', () => {
+            const long = `${'very '.repeat(26)}long.`;
+
+            expect(lint({ mainContent: long }).find(f => f.rule === 'sentenceLength')?.message).toContain('1 sentence is over 25 words (longest 27)');
+        });
+
+        it('skips sentence length for languages written without spaces', () => {
+            expect(lint({ mainContent: `${'very '.repeat(26)}long.`, callToAction: '关注我们。' }, 'TikTok', { language: 'zh' })).toEqual([]);
+        });
+    });
+});
+
+describe('getReadingGrade', () => {
+    it('scores short everyday sentences lower than dense ones', () => {
+        expect(getReadingGrade('The cat sat on the mat. It was warm.')).toBeLessThan(3);
+        expect(getReadingGrade('Institutional considerations necessitate comprehensive organizational restructuring.')).toBeGreaterThan(10);
+    });
+
+    it('returns 0 for empty text', () => {
+        expect(getReadingGrade('')).toBe(0);
+    });
+});
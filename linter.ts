@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PLATFORM_SPECS } from './platforms';
+import { SCRIPT_TYPES } from './scriptTypes';
+import { getOrderedSections, getSpokenSections, sectionToText } from './scriptFormat';
+import { BrandProfile, ScriptTypeId, ScriptVariant } from './types';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintFinding = {
+    rule: string;
+    severity: LintSeverity;
+    // null for findings about the script as a whole
+    section: string | null;
+    message: string;
+};
+
+export type LintOptions = {
+    brandProfile?: BrandProfile | null;
+    language: string;
+};
+
+const MAX_SENTENCE_WORDS = 25;
+const MAX_READING_GRADE = 10;
+// Captions this close to the limit leave no room for a last-minute edit
+const CAPTION_WARNING_RATIO = 0.9;
+
+// Claims and topics that platforms commonly restrict, demonetise or require a disclaimer for
+const SENSITIVE_TERMS = [
+    'guaranteed results', 'get rich quick', 'miracle cure', 'cure cancer', 'risk-free', 'lose weight fast', 'free money',
+    'no side effects', 'clinically proven', 'double your money', 'suicide', 'self-harm', 'kill yourself', 'firearm',
+    'gambling', 'casino', 'giveaway', 'follow for follow', 'like for like',
+];
+
+// Verbs a call to action normally opens with; only checked for English scripts
+const CTA_VERBS = [
+    'follow', 'subscribe', 'comment', 'share', 'click', 'tap', 'visit', 'download', 'sign', 'join', 'try', 'save', 'like',
+    'buy', 'shop', 'order', 'book', 'learn', 'check', 'watch', 'listen', 'get', 'grab', 'start', 'register', 'call', 'dm',
+    'message', 'tell', 'let', 'head', 'go', 'read', 'discover',
+];
+
+// Languages written without spaces between words, where word and sentence counts mean little
+const UNSPACED_LANGUAGES = ['ja', 'zh'];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const containsTerm = (text: string, term: string) => new RegExp(`(?:^|[^\\p{L}\\p{N}])${escapeRegExp(term)}(?:$|[^\\p{L}\\p{N}])`, 'iu').test(text);
+
+const splitSentences = (text: string) => (text.match(/[^.!?\n]+[.!?]*/g) ?? []).map(sentence => sentence.trim()).filter(Boolean);
+
+const getWords = (text: string): string[] => text.match(/[\p{L}\p{N}'’-]+/gu) ?? [];
+
+// Vowel groups, minus a silent final "e"; close enough for a grade estimate
+const countSyllables = (word: string) => {
+    const groups = word.toLowerCase().replace(/(?:[^laeiouy]es|[^laeiouy]e|ed)$/, '').match(/[aeiouy]+/g);
+    return Math.max(1, groups?.length ?? 0);
+};
+
+// Flesch-Kincaid grade level, which is only calibrated for English
+export const getReadingGrade = (text: string) => {
+    const sentences = splitSentences(text).length;
+    const words = getWords(text);
+    if (sentences === 0 || words.length === 0) return 0;
+    const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+    return 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+};
+
+const lintHashtags = (text: string, limit: number, platform: string): LintFinding[] => {
+    const findings: LintFinding[] = [];
+    const tokens = text.split(/[\s,]+/).filter(Boolean);
+    const tags = tokens.filter(token => token.startsWith('#'));
+    const add = (severity: LintSeverity, message: string) => findings.push({ rule: 'hashtags', severity, section: 'hashtags', message });
+
+    if (limit === 0 && tags.length > 0) {
+        add('error', `${platform} posts should not use hashtags, but ${tags.length} ${tags.length === 1 ? 'is' : 'are'} included.`);
+    } else if (tags.length > limit) {
+        add('error', `${tags.length} hashtags is over the ${limit} allowed for ${platform}.`);
+    }
+    const missingHash = tokens.filter(token => !token.startsWith('#'));
+    if (missingHash.length > 0) add('warning', `Missing "#": ${missingHash.join(' ')}`);
+    const malformed = tags.filter(tag => !/^#[\p{L}\p{N}_]*\p{L}[\p{L}\p{N}_]*$/u.test(tag));
+    if (malformed.length > 0) add('warning', `Hashtags can only contain letters, numbers and underscores and need at least one letter: ${malformed.join(' ')}`);
+    const seen = new Set<string>();
+    const duplicates = tags.filter(tag => {
+        const key = tag.toLowerCase();
+        if (!seen.has(key)) {
+            seen.add(key);
+            return false;
+        }
+        return true;
+    });
+    if (duplicates.length > 0) add('warning', `Repeated hashtags: ${duplicates.join(' ')}`);
+    return findings;
+};
+
+export const lintVariant = (scriptType: ScriptTypeId, variant: ScriptVariant, { brandProfile, language }: LintOptions): LintFinding[] => {
+    const definition = SCRIPT_TYPES[scriptType];
+    const findings: LintFinding[] = [];
+    const ordered = getOrderedSections(scriptType, variant.sections);
+    const spoken = getSpokenSections(scriptType, variant.sections);
+    const isEnglish = language.split('-')[0] === 'en';
+    const isSpaced = !UNSPACED_LANGUAGES.includes(language.split('-')[0]);
+
+    // Platform limits only apply where the script was written to a platform's rules
+    const spec = definition.fixedPlatform ? undefined : PLATFORM_SPECS[variant.platform];
+    if (spec) {
+        const hashtags = typeof variant.sections.hashtags === 'string' ? variant.sections.hashtags : '';
+        const captionLength = spoken.reduce((sum, section) => sum + section.text.length, 0) + hashtags.trim().length;
+        if (captionLength > spec.captionLimit) {
+            findings.push({ rule: 'captionLimit', severity: 'error', section: null, message: `The caption text is ${captionLength} characters, over the ${spec.captionLimit} limit for ${spec.name}.` });
+        } else if (captionLength > spec.captionLimit * CAPTION_WARNING_RATIO) {
+            findings.push({ rule: 'captionLimit', severity: 'info', section: null, message: `The caption text is ${captionLength} of ${spec.captionLimit} characters allowed on ${spec.name}.` });
+        }
+        if (variant.sections.hashtags !== undefined) findings.push(...lintHashtags(hashtags, spec.hashtagLimit, spec.name));
+    }
+
+    const scriptText = ordered.map(({ kind, value }) => sectionToText(kind, value)).join('\n');
+    brandProfile?.requiredPhrases.filter(phrase => !containsTerm(scriptText, phrase)).forEach(phrase => {
+        findings.push({ rule: 'requiredPhrase', severity: 'error', section: null, message: `Doesn't include "${phrase}", which the ${brandProfile.name} brand profile requires.` });
+    });
+
+    ordered.forEach(({ key, kind, value }) => {
+        const text = sectionToText(kind, value);
+        brandProfile?.forbiddenPhrases.filter(phrase => containsTerm(text, phrase)).forEach(phrase => {
+            findings.push({ rule: 'forbiddenPhrase', severity: 'error', section: key, message: `Uses "${phrase}", which the ${brandProfile.name} brand profile forbids.` });
+        });
+        SENSITIVE_TERMS.filter(term => containsTerm(text, term)).forEach(term => {
+            findings.push({ rule: 'sensitiveTerm', severity: 'warning', section: key, message: `"${term}" is often restricted or needs a disclaimer on social platforms.` });
+        });
+    });
+
+    spoken.forEach(({ key, text }) => {
+        if (!isSpaced) return;
+        const long = splitSentences(text).map(sentence => getWords(sentence).length).filter(words => words > MAX_SENTENCE_WORDS);
+        if (long.length > 0) {
+            findings.push({
+                rule: 'sentenceLength',
+                severity: 'warning',
+                section: key,
+                message: `${long.length} sentence${long.length === 1 ? ' is' : 's are'} over ${MAX_SENTENCE_WORDS} words (longest ${Math.max(...long)}). Long sentences are hard to say and to follow.`,
+            });
+        }
+        if (!isEnglish) return;
+        const grade = getReadingGrade(text);
+        if (grade > MAX_READING_GRADE) {
+            findings.push({ rule: 'readability', severity: 'warning', section: key, message: `Reads at about grade ${Math.round(grade)}; aim for ${MAX_READING_GRADE} or below for a general audience.` });
+        }
+    });
+
+    if (definition.sections.some(section => section.key === 'callToAction')) {
+        const cta = typeof variant.sections.callToAction === 'string' ? variant.sections.callToAction.trim() : '';
+        if (!cta) {
+            findings.push({ rule: 'callToAction', severity: 'error', section: 'callToAction', message: 'The script has no call to action.' });
+        } else if (isEnglish && !getWords(cta).some(word => CTA_VERBS.includes(word.toLowerCase()))) {
+            findings.push({ rule: 'callToAction', severity: 'warning', section: 'callToAction', message: "The call to action doesn't ask the viewer to do anything specific." });
+        }
+    }
+    return findings;
+};
+
+export const hasLintErrors = (findings: LintFinding[]) => findings.some(finding => finding.severity === 'error');
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type PlatformSpec = {
+    name: string;
+    captionLimit: number;
+    hashtagLimit: number;
+    aspectRatio: string;
+    maxDurationSeconds?: number;
+    guidance: string;
+};
+
+export const PLATFORM_SPECS: Record<string, PlatformSpec> = {
+    Instagram: {
+        name: 'Instagram',
+        captionLimit: 2200,
+        hashtagLimit: 5,
+        aspectRatio: '9:16 vertical (Reels), safe zone away from the bottom caption area',
+        maxDurationSeconds: 90,
+        guidance: 'A Reel of 15-60 seconds. Hook must land in the first 2 seconds. Keep sentences short and visual.',
+    },
+    YouTube: {
+        name: 'YouTube',
+        captionLimit: 5000,
+        hashtagLimit: 3,
+        aspectRatio: '16:9 horizontal',
+        guidance: 'A YouTube video. Tease the payoff in the hook and deliver value before the call to action.',
+    },
+    Facebook: {
+        name: 'Facebook',
+        captionLimit: 2000,
+        hashtagLimit: 3,
+        aspectRatio: '4:5 or 1:1 for feed, 9:16 for Reels',
+        maxDurationSeconds: 90,
+        guidance: 'A feed video or Reel watched mostly without sound. Assume on-screen text carries the message.',
+    },
+    TikTok: {
+        name: 'TikTok',
+        captionLimit: 4000,
+        hashtagLimit: 5,
+        aspectRatio: '9:16 vertical, full screen',
+        maxDurationSeconds: 600,
+        guidance: 'A fast-paced TikTok of 20-45 seconds. Conversational, trend-aware, no slow intros.',
+    },
+    LinkedIn: {
+        name: 'LinkedIn',
+        captionLimit: 3000,
+        hashtagLimit: 5,
+        aspectRatio: '1:1 or 4:5, 16:9 also accepted',
+        maxDurationSeconds: 600,
+        guidance: 'A professional LinkedIn post or video. Lead with an insight, keep the tone credible and practical.',
+    },
+    Website: {
+        name: 'Website',
+        captionLimit: 10000,
+        hashtagLimit: 0,
+        aspectRatio: '16:9 horizontal, embedded player',
+        guidance: 'An embedded website or landing-page video. Focus on clarity and conversion rather than virality.',
+    },
+};
+
+export const PLATFORMS = Object.keys(PLATFORM_SPECS);
+
+export const getPlatformInstructions = (platform: string): string => {
+    const spec = PLATFORM_SPECS[platform];
+    if (!spec) return `Tailor the script for ${platform}.`;
+
+    const lines = [
+        `Platform: ${spec.name}. ${spec.guidance}`,
+        `- Keep the spoken copy and caption text under ${spec.captionLimit} characters.`,
+        spec.hashtagLimit > 0
+            ? `- Use at most ${spec.hashtagLimit} hashtags.`
+            : `- Do not use hashtags; leave the hashtags field empty.`,
+        `- Frame every shot and B-roll idea for a ${spec.aspectRatio} aspect ratio.`,
+    ];
+    if (spec.maxDurationSeconds) {
+        lines.push(`- The spoken script must fit within ${spec.maxDurationSeconds} seconds.`);
+    }
+    return lines.join('\n');
+};
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getLanguageName } from './languages';
+import { getPlatformInstructions } from './platforms';
+import { ScriptTypeDefinition } from './scriptTypes';
+import { BrandProfile, ScriptSections } from './types';
+
+export type ScriptPromptOptions = {
+    definition: ScriptTypeDefinition;
+    platform: string;
+    idea: string;
+    wordCount: string;
+    advancedInstructions: string;
+    brandProfile?: BrandProfile | null;
+    language: string;
+};
+
+export type SectionPromptOptions = {
+    definition: ScriptTypeDefinition;
+    platform: string;
+    sections: ScriptSections;
+    key: string;
+    instruction?: string;
+    brandProfile?: BrandProfile | null;
+    language: string;
+};
+
+export type AlternativesPromptOptions = {
+    definition: ScriptTypeDefinition;
+    platform: string;
+    sections: ScriptSections;
+    keys: string[];
+    count: number;
+    brandProfile?: BrandProfile | null;
+    language: string;
+};
+
+export type TranslationPromptOptions = {
+    definition: ScriptTypeDefinition;
+    sections: ScriptSections;
+    language: string;
+};
+
+export const buildSystemInstruction = (violationKey: string) => {
+    return `You are a helpful script generator for videos, podcasts, plays and social media. Your primary goal is to create engaging and appropriate content. You must adhere to the following safety policies strictly:
+1.  **Adult Content:** If the user's content idea or instructions request sexually explicit, violent, or otherwise inappropriate adult content, you MUST refuse the request. To do this, return a valid JSON object where the '${violationKey}' field contains ONLY the exact string 'CONTENT_VIOLATION' and all other fields are empty. Do not explain why.
+2.  **Visuals Policy:** In any field that describes visuals, shots, B-roll or stage directions, you must not suggest or describe any visuals that include images of women. You can describe scenes, objects, text, or men, but explicitly avoid mentioning women in those fields.`;
+};
+
+// Keys and fixed option values stay in English so the response still matches the schema
+const buildLanguageInstruction = (language: string) => {
+    return `Write all of the script's text in ${getLanguageName(language)}. Keep the JSON keys and any values chosen from a fixed list of options in English.`;
+};
+
+const quoteList = (phrases: string[]) => phrases.map(phrase => `"${phrase}"`).join(', ');
+
+export const buildBrandInstructions = (profile: BrandProfile) => {
+    const lines = [`Brand Profile "${profile.name}":`];
+    if (profile.voice.trim()) lines.push(`- Voice and tone: ${profile.voice.trim()}`);
+    if (profile.audience.trim()) lines.push(`- Audience: ${profile.audience.trim()}`);
+    if (profile.requiredPhrases.length > 0) lines.push(`- Include each of these phrases word for word: ${quoteList(profile.requiredPhrases)}.`);
+    if (profile.forbiddenPhrases.length > 0) lines.push(`- Never use these words or phrases anywhere in the script: ${quoteList(profile.forbiddenPhrases)}.`);
+    if (profile.callToAction.trim()) lines.push(`- Unless the idea asks for something else, the call to action should be: ${profile.callToAction.trim()}`);
+    if (profile.hashtags.trim()) lines.push(`- Where the script has hashtags, include these: ${profile.hashtags.trim()}`);
+    return lines.join('\n');
+};
+
+export const buildScriptPrompt = ({ definition, platform, idea, wordCount, advancedInstructions, brandProfile, language }: ScriptPromptOptions) => {
+    let prompt = definition.fixedPlatform
+        ? `Based on the following content idea, generate ${definition.promptIntro}\n\nIdea: "${idea}"`
+        : `Based on the following content idea, generate ${definition.promptIntro} Tailor it specifically for ${platform}.\n\n${getPlatformInstructions(platform)}\n\nIdea: "${idea}"`;
+
+    if (wordCount && parseInt(wordCount) > 0) {
+        prompt += `\n\nThe ${definition.wordCountScope} should be approximately ${wordCount} words.`;
+    }
+
+    prompt += `\n\n${buildLanguageInstruction(language)}`;
+
+    if (brandProfile) {
+        prompt += `\n\n${buildBrandInstructions(brandProfile)}`;
+    }
+
+    // Instructions for this one script come last so they can override the brand defaults
+    if (advancedInstructions.trim()) {
+        prompt += `\n\nAdvanced Instructions: ${advancedInstructions.trim()}`;
+    }
+    return prompt;
+};
+
+export const buildSectionPrompt = ({ definition, platform, sections, key, instruction, brandProfile, language }: SectionPromptOptions) => {
+    let prompt = `You are revising one section of an existing ${definition.label} script`;
+    prompt += definition.fixedPlatform ? '.' : ` written for ${platform}.\n\n${getPlatformInstructions(platform)}`;
+    if (brandProfile) prompt += `\n\n${buildBrandInstructions(brandProfile)}`;
+    prompt += `\n\nHere is the full current script as JSON, for context:\n${JSON.stringify(sections, null, 2)}`;
+    prompt += `\n\nRewrite only the "${key}" section so that it still flows with the rest of the script.`;
+    prompt += instruction?.trim()
+        ? ` Follow this instruction: ${instruction.trim()}`
+        : ` Write a fresh alternative that is noticeably different from the current version.`;
+    prompt += `\n\n${buildLanguageInstruction(language)}`;
+    prompt += `\n\nReturn a JSON object containing only the "${key}" field.`;
+    return prompt;
+};
+
+export const buildAlternativesPrompt = ({ definition, platform, sections, keys, count, brandProfile, language }: AlternativesPromptOptions) => {
+    let prompt = `You are writing alternative versions of sections of an existing ${definition.label} script`;
+    prompt += definition.fixedPlatform ? '.' : ` written for ${platform}.\n\n${getPlatformInstructions(platform)}`;
+    if (brandProfile) prompt += `\n\n${buildBrandInstructions(brandProfile)}`;
+    prompt += `\n\nHere is the full current script as JSON, for context:\n${JSON.stringify(sections, null, 2)}`;
+    prompt += `\n\nFor each of these sections, write exactly ${count} alternatives: ${keys.map(key => `"${key}"`).join(', ')}.`;
+    prompt += ` Each alternative must still flow with the rest of the script, be clearly different from the current version and from the other alternatives, and take a different angle (for example a question, a bold claim, a number or a story).`;
+    prompt += `\n\n${buildLanguageInstruction(language)}`;
+    prompt += `\n\nReturn a JSON object where each of those fields is a list of the alternatives as plain text.`;
+    return prompt;
+};
+
+export const buildTranslationPrompt = ({ definition, sections, language }: TranslationPromptOptions) => {
+    let prompt = `Translate the following ${definition.label} script into ${getLanguageName(language)}.`;
+    prompt += `\n\n${JSON.stringify(sections, null, 2)}`;
+    prompt += `\n\nReturn the same JSON structure with the same keys, the same number of items in every list and the items in the same order.`;
+    prompt += ` Translate every piece of spoken, written and descriptive text so it reads naturally for native speakers, adapting idioms and hashtags rather than translating them word for word.`;
+    prompt += ` Leave JSON keys, timestamps, timecodes, character and speaker names, section links and any values chosen from a fixed list of options unchanged.`;
+    return prompt;
+};
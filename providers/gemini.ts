@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import { ScriptStreamSource, createAbortError } from '../scriptStream';
+import { ProviderDefinition, ProviderSettings } from './types';
+
+const createGeminiStreamSource = (settings: ProviderSettings): ScriptStreamSource => {
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+    return async function* (request, signal) {
+        const stream = await ai.models.generateContentStream({
+            model: settings.model,
+            contents: request.prompt,
+            config: {
+                systemInstruction: request.systemInstruction,
+                responseMimeType: "application/json",
+                responseSchema: request.responseSchema,
+                abortSignal: signal,
+            }
+        });
+        for await (const chunk of stream) {
+            if (signal.aborted) throw createAbortError();
+            if (chunk.text) yield chunk.text;
+        }
+    };
+};
+
+export const geminiProvider: ProviderDefinition = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Uses the Gemini API key from the environment unless one is entered here.',
+    defaultModel: 'gemini-2.5-flash',
+    defaultEndpoint: '',
+    usesEndpoint: false,
+    usesApiKey: true,
+    createStreamSource: createGeminiStreamSource,
+};
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { openAiCompatibleProvider } from './openaiCompatible';
+import { ProviderDefinition, ProviderId, ProviderSettings } from './types';
+
+export type { ProviderDefinition, ProviderId, ProviderSettings } from './types';
+
+const SETTINGS_KEY = 'script-writer:providerSettings';
+
+export const PROVIDERS: Record<ProviderId, ProviderDefinition> = {
+    gemini: geminiProvider,
+    openai: openAiCompatibleProvider,
+    mock: mockProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS) as ProviderId[];
+
+export const getDefaultSettings = (provider: ProviderId): ProviderSettings => ({
+    provider,
+    model: PROVIDERS[provider].defaultModel,
+    endpoint: PROVIDERS[provider].defaultEndpoint,
+    apiKey: '',
+});
+
+export const loadProviderSettings = (): ProviderSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+        if (saved && PROVIDERS[saved.provider as ProviderId]) {
+            return { ...getDefaultSettings(saved.provider), ...saved };
+        }
+    } catch (e) {
+        console.error("Settings Error:", e);
+    }
+    return getDefaultSettings('gemini');
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const createStreamSource = (settings: ProviderSettings) => {
+    return PROVIDERS[settings.provider].createStreamSource(settings);
+};
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Type } from '@google/genai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SCRIPT_TYPES, SCRIPT_TYPE_IDS, getStreamingSchema } from '../scriptTypes';
+import { generateStructured } from '../structuredGeneration';
+import { validateAgainstSchema } from '../validation';
+import { getDefaultSettings } from './index';
+import { buildMockValue, mockProvider } from './mock';
+
+const generateMock = async (prompt: string, scriptType: keyof typeof SCRIPT_TYPES) => {
+    const source = mockProvider.createStreamSource(getDefaultSettings('mock'));
+    const request = { prompt, systemInstruction: '', responseSchema: getStreamingSchema(SCRIPT_TYPES[scriptType]) };
+    const pending = generateStructured(source, request, new AbortController().signal, () => {});
+    // The mock paces its chunks like a real stream; skip the waits
+    await vi.runAllTimersAsync();
+    return pending;
+};
+
+describe('mockProvider', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it.each(SCRIPT_TYPE_IDS)('streams a %s script that matches its schema', async scriptType => {
+        const result = await generateMock('Idea: "Cold brew at home"', scriptType);
+
+        expect(result.aborted).toBe(false);
+        expect(validateAgainstSchema(SCRIPT_TYPES[scriptType].responseSchema, result.value).issues).toEqual([]);
+    });
+
+    it.each(SCRIPT_TYPE_IDS)('returns the same %s script on every run', async scriptType => {
+        const first = await generateMock('Idea: "Cold brew at home"', scriptType);
+        const second = await generateMock('Idea: "Cold brew at home"', scriptType);
+
+        expect(second.value).toEqual(first.value);
+    });
+
+    it('mentions the idea from the prompt', async () => {
+        const result = await generateMock('Idea: "Cold brew at home"', 'social');
+
+        expect(result.value.hook).toContain('Cold brew at home');
+    });
+});
+
+describe('buildMockValue', () => {
+    it('fills every property with a value of its type', () => {
+        const schema = {
+            type: Type.OBJECT,
+            properties: {
+                title: { type: Type.STRING },
+                seconds: { type: Type.NUMBER },
+                roll: { type: Type.STRING, enum: ['A-roll', 'B-roll'] },
+                tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+            },
+        };
+
+        expect(buildMockValue(schema, 'script', 'tea')).toEqual({
+            title: 'Mock title about tea.',
+            seconds: 1,
+            roll: 'A-roll',
+            tags: ['Mock tags 1 about tea.', 'Mock tags 2 about tea.'],
+        });
+    });
+});
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Schema, Type } from "@google/genai";
+import { StreamRequest, createFakeStreamSource } from '../scriptStream';
+import { ProviderDefinition } from './types';
+
+const CHUNK_SIZE = 24;
+const CHUNK_DELAY_MS = 15;
+
+const getIdea = (prompt: string) => {
+    const idea = prompt.match(/Idea: "([\s\S]*?)"/)?.[1] ?? 'your idea';
+    return idea.length > 40 ? `${idea.slice(0, 40)}...` : idea;
+};
+
+// Builds the same sample value for the same schema and prompt every time
+export const buildMockValue = (schema: Schema, name: string, idea: string): unknown => {
+    switch (schema.type) {
+        case Type.OBJECT:
+            return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, value]) => [key, buildMockValue(value, key, idea)]));
+        case Type.ARRAY:
+            return [1, 2].map(n => buildMockValue(schema.items ?? { type: Type.STRING }, `${name} ${n}`, idea));
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return 1;
+        case Type.BOOLEAN:
+            return false;
+        default:
+            if (schema.enum?.length) return schema.enum[0];
+            return `Mock ${name} about ${idea}.`;
+    }
+};
+
+const getMockChunks = (request: StreamRequest) => {
+    const text = JSON.stringify(buildMockValue(request.responseSchema, 'script', getIdea(request.prompt)));
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+        chunks.push(text.slice(i, i + CHUNK_SIZE));
+    }
+    return chunks;
+};
+
+export const mockProvider: ProviderDefinition = {
+    id: 'mock',
+    label: 'Mock (offline)',
+    description: 'Returns deterministic placeholder scripts without any network calls, for development and tests.',
+    defaultModel: 'mock',
+    defaultEndpoint: '',
+    usesEndpoint: false,
+    usesApiKey: false,
+    createStreamSource: () => createFakeStreamSource(getMockChunks, CHUNK_DELAY_MS),
+};
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Schema, Type } from '@google/genai';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { openAiCompatibleProvider, readServerSentEvents, toJsonSchema } from './openaiCompatible';
+
+const toStream = (chunks: string[]) => {
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+            controller.close();
+        },
+    });
+};
+
+const collect = async (stream: AsyncIterable<string>) => {
+    const items: string[] = [];
+    for await (const item of stream) items.push(item);
+    return items;
+};
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+describe('toJsonSchema', () => {
+    it('converts a Gemini schema to plain JSON Schema', () => {
+        const schema: Schema = {
+            type: Type.OBJECT,
+            properties: {
+                hook: { type: Type.STRING, description: "A short hook." },
+                shots: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            roll: { type: Type.STRING, enum: ['A-roll', 'B-roll'] },
+                            durationSeconds: { type: Type.NUMBER },
+                        },
+                        required: ['roll'],
+                    },
+                },
+            },
+            required: ['hook', 'shots'],
+            propertyOrdering: ['hook', 'shots'],
+        };
+
+        expect(toJsonSchema(schema)).toEqual({
+            type: 'object',
+            properties: {
+                hook: { type: 'string', description: "A short hook." },
+                shots: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            roll: { type: 'string', enum: ['A-roll', 'B-roll'] },
+                            durationSeconds: { type: 'number' },
+                        },
+                        required: ['roll'],
+                        additionalProperties: false,
+                    },
+                },
+            },
+            required: ['hook', 'shots'],
+            additionalProperties: false,
+        });
+    });
+
+    it('marks no properties required when the schema lists none', () => {
+        expect(toJsonSchema({ type: Type.OBJECT, properties: { hook: { type: Type.STRING } } }).required).toEqual([]);
+    });
+});
+
+describe('readServerSentEvents', () => {
+    it('yields the data of each event and ignores other lines', async () => {
+        const events = await collect(readServerSentEvents(toStream([': keep-alive\n', 'data: {"a":1}\n\n', 'event: ping\ndata: [DONE]\n\n'])));
+
+        expect(events).toEqual(['{"a":1}', '[DONE]']);
+    });
+
+    it('joins a line that is split across chunks', async () => {
+        const events = await collect(readServerSentEvents(toStream(['data: {"choi', 'ces":[]}\n', '\ndata: [DO', 'NE]\n\n'])));
+
+        expect(events).toEqual(['{"choices":[]}', '[DONE]']);
+    });
+});
+
+describe('openAiCompatibleProvider', () => {
+    const settings = { provider: 'openai' as const, model: 'test-model', endpoint: 'http://localhost:11434/v1/', apiKey: '' };
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('streams the content deltas and stops at [DONE]', async () => {
+        const body = [delta('{"hook": "Stop'), delta(' scrolling."}'), 'data: [DONE]\n\n', delta('ignored')].join('');
+        const fetchMock = vi.fn(async () => new Response(toStream([body.slice(0, 30), body.slice(30)])));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const source = openAiCompatibleProvider.createStreamSource(settings);
+        const chunks = await collect(source({ prompt: 'An idea', systemInstruction: '', responseSchema: { type: Type.OBJECT } }, new AbortController().signal));
+
+        expect(chunks).toEqual(['{"hook": "Stop', ' scrolling."}']);
+        expect(fetchMock).toHaveBeenCalledWith('http://localhost:11434/v1/chat/completions', expect.objectContaining({ method: 'POST' }));
+    });
+
+    it('reports an error event from the server', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(toStream(['data: {"error": {"message": "Model not found"}}\n\n']))));
+
+        const source = openAiCompatibleProvider.createStreamSource(settings);
+        await expect(collect(source({ prompt: 'An idea', systemInstruction: '', responseSchema: { type: Type.OBJECT } }, new AbortController().signal)))
+            .rejects.toThrow('Model not found');
+    });
+});
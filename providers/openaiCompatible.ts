@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Schema } from "@google/genai";
+import { ScriptStreamSource } from '../scriptStream';
+import { ProviderDefinition, ProviderSettings } from './types';
+
+type JsonSchema = Record<string, unknown>;
+
+// The request schemas are written in Gemini's dialect; OpenAI-style servers expect plain JSON Schema
+export const toJsonSchema = (schema: Schema): JsonSchema => {
+    const json: JsonSchema = {};
+    if (schema.type) json.type = schema.type.toLowerCase();
+    if (schema.description) json.description = schema.description;
+    if (schema.enum) json.enum = schema.enum;
+    if (schema.items) json.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        json.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+        json.required = schema.required ?? [];
+        json.additionalProperties = false;
+    }
+    return json;
+};
+
+export const readServerSentEvents = async function* (body: ReadableStream<Uint8Array>) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                if (line.startsWith('data:')) yield line.slice(5).trim();
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+};
+
+const createOpenAiStreamSource = (settings: ProviderSettings): ScriptStreamSource => {
+    const endpoint = settings.endpoint.replace(/\/+$/, '');
+    return async function* (request, signal) {
+        const schema = toJsonSchema(request.responseSchema);
+        const response = await fetch(`${endpoint}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model: settings.model,
+                stream: true,
+                messages: [
+                    // Servers that ignore response_format still get the schema in the instructions
+                    { role: 'system', content: `${request.systemInstruction}\n\nRespond only with a JSON object matching this JSON Schema:\n${JSON.stringify(schema)}` },
+                    { role: 'user', content: request.prompt },
+                ],
+                response_format: { type: 'json_schema', json_schema: { name: 'script', schema, strict: false } },
+            }),
+            signal,
+        });
+
+        if (!response.ok || !response.body) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`The model server returned ${response.status} ${response.statusText}. ${detail.slice(0, 200)}`.trim());
+        }
+
+        for await (const data of readServerSentEvents(response.body)) {
+            if (data === '[DONE]') return;
+            const event = JSON.parse(data);
+            if (event.error) throw new Error(event.error.message ?? "The model server reported an error.");
+            const content = event.choices?.[0]?.delta?.content;
+            if (content) yield content;
+        }
+    };
+};
+
+export const openAiCompatibleProvider: ProviderDefinition = {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    description: 'OpenAI, or any server with a /chat/completions endpoint such as Ollama (http://localhost:11434/v1), LM Studio or vLLM.',
+    defaultModel: 'gpt-4o-mini',
+    defaultEndpoint: 'https://api.openai.com/v1',
+    usesEndpoint: true,
+    usesApiKey: true,
+    createStreamSource: createOpenAiStreamSource,
+};
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ScriptStreamSource } from '../scriptStream';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export type ProviderSettings = {
+    provider: ProviderId;
+    model: string;
+    endpoint: string;
+    apiKey: string;
+};
+
+export type ProviderDefinition = {
+    id: ProviderId;
+    label: string;
+    description: string;
+    defaultModel: string;
+    defaultEndpoint: string;
+    usesEndpoint: boolean;
+    usesApiKey: boolean;
+    // Structured generation: streams JSON text that matches the request's response schema
+    createStreamSource: (settings: ProviderSettings) => ScriptStreamSource;
+};
@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Paragraph, TextRun, AlignmentType } from 'docx';
+import { SCRIPT_TYPES, getSpokenKeys } from './scriptTypes';
+import { formatShot } from './shotList';
+import {
+    AdBeat, Chapter, Character, GeneratedSectionValue, PodcastSegment, Scene,
+    ScriptSections, ScriptTypeId, SectionKind, Shot,
+} from './types';
+
+export type OrderedSection = {
+    key: string;
+    kind: SectionKind;
+    value: GeneratedSectionValue;
+};
+
+export type SpokenSection = {
+    key: string;
+    title: string;
+    text: string;
+};
+
+export const formatTitle = (title: string) => {
+    return title.replace(/([A-Z])/g, ' $1').replace(/^./, (str) => str.toUpperCase());
+};
+
+export const getOrderedSections = (scriptType: ScriptTypeId, sections: ScriptSections): OrderedSection[] => {
+    return SCRIPT_TYPES[scriptType].sections
+        .filter(({ key }) => sections[key] !== undefined)
+        .map(({ key, kind }) => ({ key, kind, value: sections[key] }));
+};
+
+export const getSpokenSections = (scriptType: ScriptTypeId, sections: ScriptSections): SpokenSection[] => {
+    const spokenKeys = getSpokenKeys(scriptType);
+    return getOrderedSections(scriptType, sections)
+        .filter(({ key }) => spokenKeys.includes(key))
+        .map(({ key, kind, value }) => ({ key, title: formatTitle(key), text: sectionToSpeech(kind, value).trim() }))
+        .filter(section => section.text.length > 0);
+};
+
+export const countWords = (text: string) => text.match(/\S+/g)?.length ?? 0;
+
+export const sectionToText = (kind: SectionKind, value: GeneratedSectionValue): string => {
+    switch (kind) {
+        case 'shotList':
+            return (value as Shot[]).map((shot, i) => `${i + 1}. [${formatTitle(shot.section)}] ${formatShot(shot)}`).join('\n');
+        case 'chapters':
+            return (value as Chapter[])
+                .map(c => `[${c.timestamp}] ${c.title}\n${c.narration}\nVisuals: ${c.visuals}`)
+                .join('\n\n');
+        case 'podcastSegments':
+            return (value as PodcastSegment[])
+                .map(segment => `${segment.title}\n${segment.lines.map(l => `${l.speaker} (${l.role}): ${l.text}`).join('\n')}`)
+                .join('\n\n');
+        case 'characters':
+            return (value as Character[]).map(c => `- ${c.name}: ${c.description}`).join('\n');
+        case 'scenes':
+            return (value as Scene[])
+                .map(scene => `${scene.heading.toUpperCase()}\n\n${scene.elements
+                    .map(e => e.type === 'dialogue' ? `${e.character.toUpperCase()}\n${e.text}` : `(${e.text})`)
+                    .join('\n\n')}`)
+                .join('\n\n');
+        case 'adBeats':
+            return (value as AdBeat[])
+                .map(b => `${b.timecode}\nVisual: ${b.visual}\nAudio: ${b.audio}`)
+                .join('\n\n');
+        default:
+            return value as string;
+    }
+};
+
+const escapeTableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export const sectionToMarkdown = (kind: SectionKind, value: GeneratedSectionValue): string => {
+    switch (kind) {
+        case 'shotList':
+            return [
+                '| # | Section | Roll | Shot Type | Framing | Movement | Duration | Description |',
+                '| --- | --- | --- | --- | --- | --- | --- | --- |',
+                ...(value as Shot[]).map((shot, i) => `| ${i + 1} | ${[
+                    formatTitle(shot.section), shot.roll, shot.shotType, shot.framing, shot.cameraMovement, `${shot.durationSeconds}s`, shot.description,
+                ].map(escapeTableCell).join(' | ')} |`),
+            ].join('\n');
+        case 'chapters':
+            return (value as Chapter[])
+                .map(c => `#### ${c.timestamp} ${c.title}\n\n${c.narration}\n\n*Visuals: ${c.visuals}*`)
+                .join('\n\n');
+        case 'podcastSegments':
+            return (value as PodcastSegment[])
+                .map(segment => `#### ${segment.title}\n\n${segment.lines.map(l => `**${l.speaker}** (${l.role}): ${l.text}`).join('\n\n')}`)
+                .join('\n\n');
+        case 'characters':
+            return (value as Character[]).map(c => `- **${c.name}** — ${c.description}`).join('\n');
+        case 'scenes':
+            return (value as Scene[])
+                .map(scene => `#### ${scene.heading.toUpperCase()}\n\n${scene.elements
+                    .map(e => e.type === 'dialogue' ? `**${e.character.toUpperCase()}**\n${e.text}` : `*(${e.text})*`)
+                    .join('\n\n')}`)
+                .join('\n\n');
+        case 'adBeats':
+            return [
+                '| Timecode | Visual | Audio |',
+                '| --- | --- | --- |',
+                ...(value as AdBeat[]).map(b => `| ${escapeTableCell(b.timecode)} | ${escapeTableCell(b.visual)} | ${escapeTableCell(b.audio)} |`),
+            ].join('\n');
+        default:
+            return value as string;
+    }
+};
+
+export const sectionToSpeech = (kind: SectionKind, value: GeneratedSectionValue): string => {
+    switch (kind) {
+        case 'shotList':
+            return (value as Shot[]).map(shot => shot.description).join('. ');
+        case 'chapters':
+            return (value as Chapter[]).map(c => c.narration).join(' ');
+        case 'podcastSegments':
+            return (value as PodcastSegment[]).map(s => s.lines.map(l => l.text).join(' ')).join(' ');
+        case 'characters':
+            return (value as Character[]).map(c => `${c.name}, ${c.description}`).join('. ');
+        case 'scenes':
+            return (value as Scene[])
+                .map(scene => scene.elements.filter(e => e.type === 'dialogue').map(e => e.text).join(' '))
+                .join(' ');
+        case 'adBeats':
+            return (value as AdBeat[]).map(b => b.audio).join(' ');
+        default:
+            return value as string;
+    }
+};
+
+export const getSectionsText = (scriptType: ScriptTypeId, sections: ScriptSections): string => {
+    return getOrderedSections(scriptType, sections)
+        .map(({ key, kind, value }) => `${formatTitle(key)}\n${sectionToText(kind, value)}`)
+        .join('\n\n');
+};
+
+export const sectionToDocxParagraphs = (kind: SectionKind, value: GeneratedSectionValue): Paragraph[] => {
+    const paragraphs: Paragraph[] = [];
+    switch (kind) {
+        case 'shotList':
+            (value as Shot[]).forEach((shot, i) => paragraphs.push(new Paragraph({
+                children: [new TextRun({ text: `${i + 1}. ${formatTitle(shot.section)} — `, bold: true }), new TextRun(formatShot(shot))],
+            })));
+            break;
+        case 'chapters':
+            (value as Chapter[]).forEach(c => {
+                paragraphs.push(new Paragraph({ children: [new TextRun({ text: `${c.timestamp}  ${c.title}`, bold: true })], spacing: { before: 200 } }));
+                paragraphs.push(new Paragraph({ children: [new TextRun(c.narration)] }));
+                paragraphs.push(new Paragraph({ children: [new TextRun({ text: `Visuals: ${c.visuals}`, italics: true })] }));
+            });
+            break;
+        case 'podcastSegments':
+            (value as PodcastSegment[]).forEach(segment => {
+                paragraphs.push(new Paragraph({ children: [new TextRun({ text: segment.title, bold: true })], spacing: { before: 200 } }));
+                segment.lines.forEach(l => paragraphs.push(new Paragraph({
+                    children: [new TextRun({ text: `${l.speaker} (${l.role}): `, bold: true }), new TextRun(l.text)],
+                })));
+            });
+            break;
+        case 'characters':
+            (value as Character[]).forEach(c => paragraphs.push(new Paragraph({
+                children: [new TextRun({ text: c.name, bold: true }), new TextRun(` — ${c.description}`)],
+                bullet: { level: 0 },
+            })));
+            break;
+        case 'scenes':
+            (value as Scene[]).forEach(scene => {
+                paragraphs.push(new Paragraph({ children: [new TextRun({ text: scene.heading.toUpperCase(), bold: true })], spacing: { before: 300, after: 200 } }));
+                scene.elements.forEach(e => {
+                    if (e.type === 'dialogue') {
+                        paragraphs.push(new Paragraph({ children: [new TextRun(e.character.toUpperCase())], alignment: AlignmentType.CENTER, spacing: { before: 200 } }));
+                        paragraphs.push(new Paragraph({ children: [new TextRun(e.text)], indent: { left: 1440, right: 1440 } }));
+                    } else {
+                        paragraphs.push(new Paragraph({ children: [new TextRun({ text: `(${e.text})`, italics: true })], spacing: { before: 200 } }));
+                    }
+                });
+            });
+            break;
+        case 'adBeats':
+            (value as AdBeat[]).forEach(b => {
+                paragraphs.push(new Paragraph({ children: [new TextRun({ text: b.timecode, bold: true })], spacing: { before: 200 } }));
+                paragraphs.push(new Paragraph({ children: [new TextRun({ text: "Visual: ", bold: true }), new TextRun(b.visual)] }));
+                paragraphs.push(new Paragraph({ children: [new TextRun({ text: "Audio: ", bold: true }), new TextRun(b.audio)] }));
+            });
+            break;
+        default:
+            (value as string).split('\n').forEach(line => paragraphs.push(new Paragraph({ children: [new TextRun(line)] })));
+    }
+    return paragraphs;
+};
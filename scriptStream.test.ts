@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { consumeScriptStream, createFakeStreamSource, parsePartialJson } from './scriptStream';
+
+const REQUEST = { prompt: 'An idea', systemInstruction: '', responseSchema: {} };
+
+const CHUNKS = ['{"hook": "Stop scrolling', '.", "introduction": "Here is ', 'why.", "mainContent": "Because."}'];
+
+describe('parsePartialJson', () => {
+    it('closes a truncated string and object', () => {
+        expect(parsePartialJson('{"hook": "Stop scr')).toEqual({ hook: 'Stop scr' });
+    });
+
+    it('returns null before the object has started', () => {
+        expect(parsePartialJson('')).toBeNull();
+    });
+});
+
+describe('consumeScriptStream', () => {
+    it('reports growing sections and returns the full text', async () => {
+        const source = createFakeStreamSource(() => CHUNKS);
+        const partials: unknown[] = [];
+        const result = await consumeScriptStream(source(REQUEST, new AbortController().signal), new AbortController().signal, sections => partials.push(sections));
+
+        expect(result.aborted).toBe(false);
+        expect(result.text).toBe(CHUNKS.join(''));
+        expect(result.sections).toEqual({ hook: 'Stop scrolling.', introduction: 'Here is why.', mainContent: 'Because.' });
+        expect(partials.length).toBe(CHUNKS.length);
+    });
+
+    it('keeps the partial script when stopped mid-stream', async () => {
+        const controller = new AbortController();
+        const source = createFakeStreamSource(() => CHUNKS);
+        const result = await consumeScriptStream(source(REQUEST, controller.signal), controller.signal, sections => {
+            if (sections.introduction) controller.abort();
+        });
+
+        expect(result.aborted).toBe(true);
+        expect(result.text).toBe(CHUNKS.slice(0, 2).join(''));
+        expect(result.sections.hook).toBe('Stop scrolling.');
+        expect(result.sections.mainContent).toBeUndefined();
+    });
+
+    it('rethrows errors that are not a stop', async () => {
+        const stream = (async function* () {
+            yield CHUNKS[0];
+            throw new Error('Network down');
+        })();
+
+        await expect(consumeScriptStream(stream, new AbortController().signal, () => {})).rejects.toThrow('Network down');
+    });
+});
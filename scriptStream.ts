@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Schema } from "@google/genai";
+import { ScriptSections } from './types';
+
+export type TextStream = AsyncIterable<string>;
+
+export type StreamRequest = {
+    prompt: string;
+    systemInstruction: string;
+    responseSchema: Schema;
+};
+
+// Anything that can turn a request into a stream of raw JSON text chunks
+export type ScriptStreamSource = (request: StreamRequest, signal: AbortSignal) => TextStream;
+
+export type StreamResult = {
+    text: string;
+    sections: ScriptSections;
+    aborted: boolean;
+};
+
+export const createAbortError = () => new DOMException('The generation was stopped.', 'AbortError');
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+// Replays fixed chunks, for local development and tests without a network connection
+export const createFakeStreamSource = (getChunks: (request: StreamRequest) => string[], delayMs = 0): ScriptStreamSource => {
+    return async function* (request, signal) {
+        for (const chunk of getChunks(request)) {
+            if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+            if (signal.aborted) throw createAbortError();
+            yield chunk;
+        }
+    };
+};
+
+// Closes whatever strings, arrays and objects are still open in a truncated JSON document
+export const parsePartialJson = (text: string): Record<string, unknown> | null => {
+    const closers: string[] = [];
+    let inString = false;
+    let escaped = false;
+    for (const ch of text) {
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{') closers.push('}');
+        else if (ch === '[') closers.push(']');
+        else if (ch === '}' || ch === ']') closers.pop();
+    }
+
+    let body = text;
+    if (inString) body = (escaped ? body.slice(0, -1) : body) + '"';
+    body = body.replace(/[\s,]+$/, '');
+    const suffix = closers.reverse().join('');
+
+    // A dangling object key (with or without its colon) is dropped on the second attempt
+    const candidates = [body, body.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:?$/, '')];
+    for (const candidate of candidates) {
+        try {
+            const parsed = JSON.parse(candidate + suffix);
+            return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+        } catch {
+            // Try the next repair
+        }
+    }
+    return null;
+};
+
+// Only the last key can still be growing: keep it if it is text, or keep its finished array items
+const getStableSections = (partial: Record<string, unknown>): ScriptSections => {
+    const keys = Object.keys(partial);
+    const sections: ScriptSections = {};
+    keys.forEach((key, i) => {
+        const value = partial[key];
+        if (i < keys.length - 1 || typeof value === 'string') {
+            sections[key] = value as ScriptSections[string];
+        } else if (Array.isArray(value) && value.length > 1) {
+            sections[key] = value.slice(0, -1);
+        }
+    });
+    return sections;
+};
+
+export const consumeScriptStream = async (
+    stream: TextStream,
+    signal: AbortSignal,
+    onPartial: (sections: ScriptSections) => void,
+): Promise<StreamResult> => {
+    let text = '';
+    let sections: ScriptSections = {};
+    try {
+        for await (const chunk of stream) {
+            text += chunk;
+            const partial = parsePartialJson(text);
+            if (partial) {
+                sections = getStableSections(partial);
+                onPartial(sections);
+            }
+        }
+    } catch (e) {
+        if (signal.aborted || isAbortError(e)) {
+            return { text, sections, aborted: true };
+        }
+        throw e;
+    }
+    return { text, sections, aborted: false };
+};
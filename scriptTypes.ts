@@ -0,0 +1,296 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Schema, Type } from "@google/genai";
+import { CAMERA_MOVEMENTS, FRAMINGS, SHOT_ROLLS, SHOT_TYPES } from './shotList';
+import { ScriptTypeId, SectionKind } from './types';
+
+export type SectionDefinition = {
+    key: string;
+    kind: SectionKind;
+    // Read aloud on camera or on air, as opposed to titles, notes and metadata
+    spoken?: boolean;
+};
+
+export type ScriptTypeDefinition = {
+    id: ScriptTypeId;
+    label: string;
+    description: string;
+    // Types tied to a single medium skip the per-platform variants
+    fixedPlatform?: string;
+    promptIntro: string;
+    wordCountScope: string;
+    violationKey: string;
+    // Section that holds the script's own title, used on exported title pages
+    titleKey?: string;
+    sections: SectionDefinition[];
+    responseSchema: Schema;
+};
+
+const shotListSchema = (sectionKeys: string[]): Schema => ({
+    type: Type.ARRAY,
+    description: "The shot list for the video, in the order the shots appear.",
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            section: { type: Type.STRING, enum: sectionKeys, description: "The script section this shot plays under." },
+            roll: { type: Type.STRING, enum: SHOT_ROLLS, description: "A-roll for the main on-camera footage, B-roll for supplemental or cutaway footage." },
+            shotType: { type: Type.STRING, enum: SHOT_TYPES },
+            framing: { type: Type.STRING, enum: FRAMINGS },
+            cameraMovement: { type: Type.STRING, enum: CAMERA_MOVEMENTS },
+            durationSeconds: { type: Type.NUMBER, description: "Estimated on-screen duration in seconds." },
+            description: { type: Type.STRING, description: "What the shot shows (e.g., 'Close-up on the product')." },
+        },
+        required: ['section', 'roll', 'shotType', 'framing', 'cameraMovement', 'durationSeconds', 'description'],
+    },
+});
+
+const socialDefinition: ScriptTypeDefinition = {
+    id: 'social',
+    label: 'Social Post',
+    description: 'Short-form video or post for social platforms.',
+    promptIntro: 'a script for a social media post. Include a hook, introduction, main content, a call to action, a detailed shot list that links every A-roll and B-roll shot to the section it covers, and relevant hashtags.',
+    wordCountScope: 'main content',
+    violationKey: 'hook',
+    sections: [
+        { key: 'hook', kind: 'text', spoken: true },
+        { key: 'introduction', kind: 'text', spoken: true },
+        { key: 'mainContent', kind: 'text', spoken: true },
+        { key: 'callToAction', kind: 'text', spoken: true },
+        { key: 'shotList', kind: 'shotList' },
+        { key: 'hashtags', kind: 'text' },
+    ],
+    responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+            hook: { type: Type.STRING, description: "A short, attention-grabbing sentence." },
+            introduction: { type: Type.STRING, description: "A brief introduction to the topic." },
+            mainContent: { type: Type.STRING, description: "The main body of the script." },
+            callToAction: { type: Type.STRING, description: "What you want the viewer to do next." },
+            shotList: shotListSchema(['hook', 'introduction', 'mainContent', 'callToAction']),
+            hashtags: { type: Type.STRING, description: "Relevant hashtags, separated by spaces." },
+        },
+        required: ['hook', 'introduction', 'mainContent', 'callToAction', 'shotList', 'hashtags']
+    },
+};
+
+const youtubeDefinition: ScriptTypeDefinition = {
+    id: 'youtube',
+    label: 'YouTube Long-form',
+    description: 'Chaptered long-form video with timestamps.',
+    fixedPlatform: 'YouTube',
+    promptIntro: 'a long-form YouTube video script. Include a video title, a cold-open hook, chapters with start timestamps (mm:ss), narration and visual notes for each chapter, and a closing call to action.',
+    wordCountScope: 'narration across all chapters',
+    violationKey: 'hook',
+    titleKey: 'title',
+    sections: [
+        { key: 'title', kind: 'text' },
+        { key: 'hook', kind: 'text', spoken: true },
+        { key: 'chapters', kind: 'chapters', spoken: true },
+        { key: 'callToAction', kind: 'text', spoken: true },
+    ],
+    responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING, description: "A clickable video title." },
+            hook: { type: Type.STRING, description: "The cold open spoken in the first 15 seconds." },
+            chapters: {
+                type: Type.ARRAY,
+                description: "The video's chapters in order.",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        timestamp: { type: Type.STRING, description: "Chapter start time as mm:ss, the first chapter starting at 00:00." },
+                        title: { type: Type.STRING, description: "Short chapter title." },
+                        narration: { type: Type.STRING, description: "What the presenter says in this chapter." },
+                        visuals: { type: Type.STRING, description: "Footage, graphics or B-roll shown during the chapter." },
+                    },
+                    required: ['timestamp', 'title', 'narration', 'visuals']
+                }
+            },
+            callToAction: { type: Type.STRING, description: "What you want the viewer to do next." },
+        },
+        required: ['title', 'hook', 'chapters', 'callToAction']
+    },
+};
+
+const podcastDefinition: ScriptTypeDefinition = {
+    id: 'podcast',
+    label: 'Podcast',
+    description: 'Host and guest segments for an audio episode.',
+    fixedPlatform: 'Podcast',
+    promptIntro: 'a podcast episode script. Include an episode title, a cold open, segments made of host and guest lines, and an outro.',
+    wordCountScope: 'dialogue across all segments',
+    violationKey: 'episodeTitle',
+    titleKey: 'episodeTitle',
+    sections: [
+        { key: 'episodeTitle', kind: 'text' },
+        { key: 'coldOpen', kind: 'text', spoken: true },
+        { key: 'segments', kind: 'podcastSegments', spoken: true },
+        { key: 'outro', kind: 'text', spoken: true },
+    ],
+    responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+            episodeTitle: { type: Type.STRING, description: "The episode title." },
+            coldOpen: { type: Type.STRING, description: "A short teaser read before the intro music." },
+            segments: {
+                type: Type.ARRAY,
+                description: "The episode's segments in order.",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        title: { type: Type.STRING, description: "Segment title." },
+                        lines: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    speaker: { type: Type.STRING, description: "Name of the speaker." },
+                                    role: { type: Type.STRING, enum: ['host', 'guest'], description: "Whether the speaker is the host or a guest." },
+                                    text: { type: Type.STRING, description: "What the speaker says." },
+                                },
+                                required: ['speaker', 'role', 'text']
+                            }
+                        }
+                    },
+                    required: ['title', 'lines']
+                }
+            },
+            outro: { type: Type.STRING, description: "The host's closing remarks and sign-off." },
+        },
+        required: ['episodeTitle', 'coldOpen', 'segments', 'outro']
+    },
+};
+
+const stagePlayDefinition: ScriptTypeDefinition = {
+    id: 'stagePlay',
+    label: 'Stage Play',
+    description: 'Scenes with characters, dialogue and stage directions.',
+    fixedPlatform: 'Stage',
+    promptIntro: 'a stage play script. Include a title, a short synopsis, the list of characters, and scenes made of dialogue lines and stage directions.',
+    wordCountScope: 'dialogue',
+    violationKey: 'title',
+    titleKey: 'title',
+    sections: [
+        { key: 'title', kind: 'text' },
+        { key: 'synopsis', kind: 'text' },
+        { key: 'characters', kind: 'characters' },
+        { key: 'scenes', kind: 'scenes', spoken: true },
+    ],
+    responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING, description: "The title of the play." },
+            synopsis: { type: Type.STRING, description: "A two or three sentence synopsis." },
+            characters: {
+                type: Type.ARRAY,
+                description: "The cast of characters.",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        name: { type: Type.STRING, description: "Character name." },
+                        description: { type: Type.STRING, description: "One-line character description." },
+                    },
+                    required: ['name', 'description']
+                }
+            },
+            scenes: {
+                type: Type.ARRAY,
+                description: "The scenes in order.",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        heading: { type: Type.STRING, description: "Scene heading with number and setting (e.g., 'Scene 1 - A kitchen at dawn')." },
+                        elements: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    type: { type: Type.STRING, enum: ['dialogue', 'direction'], description: "A spoken line or a stage direction." },
+                                    character: { type: Type.STRING, description: "Speaking character for dialogue, empty for stage directions." },
+                                    text: { type: Type.STRING, description: "The line or the stage direction." },
+                                },
+                                required: ['type', 'character', 'text']
+                            }
+                        }
+                    },
+                    required: ['heading', 'elements']
+                }
+            },
+        },
+        required: ['title', 'synopsis', 'characters', 'scenes']
+    },
+};
+
+const adSpotDefinition: ScriptTypeDefinition = {
+    id: 'adSpot',
+    label: 'Ad Spot',
+    description: 'Timed commercial with visual and audio beats.',
+    promptIntro: 'a commercial ad spot script. Include a spot title, an opening hook, timed beats pairing what is seen with what is heard, a tagline, and a call to action.',
+    wordCountScope: 'voiceover and dialogue',
+    violationKey: 'hook',
+    titleKey: 'spotTitle',
+    sections: [
+        { key: 'spotTitle', kind: 'text' },
+        { key: 'hook', kind: 'text', spoken: true },
+        { key: 'beats', kind: 'adBeats', spoken: true },
+        { key: 'tagline', kind: 'text', spoken: true },
+        { key: 'callToAction', kind: 'text', spoken: true },
+    ],
+    responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+            spotTitle: { type: Type.STRING, description: "Working title of the spot." },
+            hook: { type: Type.STRING, description: "The opening line or moment that stops the scroll." },
+            beats: {
+                type: Type.ARRAY,
+                description: "The spot's beats in order.",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        timecode: { type: Type.STRING, description: "Time range of the beat (e.g., '0:00-0:05')." },
+                        visual: { type: Type.STRING, description: "What is on screen." },
+                        audio: { type: Type.STRING, description: "Voiceover, dialogue, music or sound effects." },
+                    },
+                    required: ['timecode', 'visual', 'audio']
+                }
+            },
+            tagline: { type: Type.STRING, description: "A memorable brand tagline." },
+            callToAction: { type: Type.STRING, description: "What you want the viewer to do next." },
+        },
+        required: ['spotTitle', 'hook', 'beats', 'tagline', 'callToAction']
+    },
+};
+
+export const SCRIPT_TYPES: Record<ScriptTypeId, ScriptTypeDefinition> = {
+    social: socialDefinition,
+    youtube: youtubeDefinition,
+    podcast: podcastDefinition,
+    stagePlay: stagePlayDefinition,
+    adSpot: adSpotDefinition,
+};
+
+export const SCRIPT_TYPE_IDS = Object.keys(SCRIPT_TYPES) as ScriptTypeId[];
+
+export const getSectionKind = (scriptType: ScriptTypeId, key: string): SectionKind => {
+    return SCRIPT_TYPES[scriptType].sections.find(s => s.key === key)?.kind ?? 'text';
+};
+
+export const getSpokenKeys = (scriptType: ScriptTypeId): string[] => {
+    return SCRIPT_TYPES[scriptType].sections.filter(s => s.spoken).map(s => s.key);
+};
+
+export const getStreamingSchema = (definition: ScriptTypeDefinition): Schema => ({
+    ...definition.responseSchema,
+    // Stream the sections in the order they are displayed
+    propertyOrdering: definition.sections.map(s => s.key),
+});
+
+export const getSectionSchema = (definition: ScriptTypeDefinition, key: string): Schema => ({
+    type: Type.OBJECT,
+    properties: { [key]: definition.responseSchema.properties![key] },
+    required: [key],
+});
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { toCsv } from './csv';
+import { Shot, ShotRoll } from './types';
+
+export const SHOT_TYPES = ['Talking head', 'Establishing', 'Cutaway', 'Insert', 'Product', 'Reaction', 'Screen recording', 'Text graphic'];
+export const FRAMINGS = ['Extreme wide', 'Wide', 'Medium', 'Medium close-up', 'Close-up', 'Extreme close-up', 'Over-the-shoulder', 'Point of view'];
+export const CAMERA_MOVEMENTS = ['Static', 'Pan', 'Tilt', 'Push in', 'Pull out', 'Tracking', 'Handheld', 'Zoom', 'Crane'];
+export const SHOT_ROLLS: ShotRoll[] = ['A-roll', 'B-roll'];
+
+export type ShotColumn = 'section' | 'roll' | 'shotType' | 'framing' | 'cameraMovement' | 'durationSeconds' | 'description';
+
+export const SHOT_COLUMNS: { key: ShotColumn; label: string }[] = [
+    { key: 'section', label: 'Section' },
+    { key: 'roll', label: 'Roll' },
+    { key: 'shotType', label: 'Shot Type' },
+    { key: 'framing', label: 'Framing' },
+    { key: 'cameraMovement', label: 'Movement' },
+    { key: 'durationSeconds', label: 'Duration (s)' },
+    { key: 'description', label: 'Description' },
+];
+
+export const createShot = (section: string, roll: ShotRoll = 'A-roll'): Shot => ({
+    section,
+    roll,
+    shotType: roll === 'A-roll' ? SHOT_TYPES[0] : 'Cutaway',
+    framing: 'Medium',
+    cameraMovement: CAMERA_MOVEMENTS[0],
+    durationSeconds: 3,
+    description: '',
+});
+
+// Scripts saved before shot lists existed kept two plain lists of ideas with no section or timing
+export const fromLegacyVisualIdeas = (value: { shotSuggestions?: string[]; bRoll?: string[] }, section: string): Shot[] => [
+    ...(value.shotSuggestions ?? []).map(description => ({ ...createShot(section, 'A-roll'), durationSeconds: 0, description })),
+    ...(value.bRoll ?? []).map(description => ({ ...createShot(section, 'B-roll'), durationSeconds: 0, description })),
+];
+
+export const getShotsDuration = (shots: Shot[]) => shots.reduce((sum, shot) => sum + (shot.durationSeconds || 0), 0);
+
+export const formatShot = (shot: Shot) => {
+    const movement = shot.cameraMovement && shot.cameraMovement !== 'Static' ? `, ${shot.cameraMovement.toLowerCase()}` : '';
+    const duration = shot.durationSeconds ? ` (${shot.durationSeconds}s)` : '';
+    return `${shot.roll} · ${shot.framing} ${shot.shotType.toLowerCase()}${movement}${duration}: ${shot.description}`;
+};
+
+// Sections sort in script order rather than alphabetically; unknown sections go last
+export const sortShots = (shots: Shot[], column: ShotColumn | null, descending: boolean, sectionOrder: string[]) => {
+    const indexed = shots.map((shot, index) => ({ shot, index }));
+    if (!column) return indexed;
+    const rank = (key: string) => {
+        const i = sectionOrder.indexOf(key);
+        return i === -1 ? sectionOrder.length : i;
+    };
+    const compare = (a: Shot, b: Shot) => {
+        if (column === 'durationSeconds') return a.durationSeconds - b.durationSeconds;
+        if (column === 'section') return rank(a.section) - rank(b.section);
+        return a[column].localeCompare(b[column]);
+    };
+    // Ties keep script order so repeated sorts are stable
+    return indexed.sort((a, b) => (descending ? -compare(a.shot, b.shot) : compare(a.shot, b.shot)) || a.index - b.index);
+};
+
+export const shotListToCsv = (shots: Shot[], getSectionTitle: (key: string) => string): string => {
+    const header = ['Shot', ...SHOT_COLUMNS.map(column => column.label)];
+    const rows = shots.map((shot, i) => [
+        i + 1,
+        getSectionTitle(shot.section),
+        shot.roll,
+        shot.shotType,
+        shot.framing,
+        shot.cameraMovement,
+        shot.durationSeconds,
+        shot.description,
+    ]);
+    return toCsv([header, ...rows]);
+};
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Schema, Type } from '@google/genai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StreamRequest, createFakeStreamSource } from './scriptStream';
+import { ContentViolationError, SchemaValidationError, generateStructured } from './structuredGeneration';
+
+const SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        hook: { type: Type.STRING },
+        callToAction: { type: Type.STRING },
+    },
+    required: ['hook', 'callToAction'],
+};
+
+const REQUEST: StreamRequest = { prompt: 'An idea', systemInstruction: '', responseSchema: SCHEMA };
+
+const VALID = '{"hook": "Stop scrolling.", "callToAction": "Follow for more."}';
+
+describe('generateStructured', () => {
+    // Invalid responses are logged before they are repaired
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('returns a valid response as is', async () => {
+        const source = createFakeStreamSource(() => [VALID.slice(0, 20), VALID.slice(20)]);
+        const result = await generateStructured(source, REQUEST, new AbortController().signal, () => {});
+
+        expect(result).toEqual({ value: { hook: 'Stop scrolling.', callToAction: 'Follow for more.' }, aborted: false });
+    });
+
+    it('keeps the partial value when stopped mid-stream', async () => {
+        const controller = new AbortController();
+        const source = createFakeStreamSource(() => ['{"hook": "Stop scrolling.", ', '"callToAction": "Follow', ' for more."}']);
+        const result = await generateStructured(source, REQUEST, controller.signal, partial => {
+            if (partial.callToAction) controller.abort();
+        });
+
+        expect(result.aborted).toBe(true);
+        expect(result.value).toEqual({ hook: 'Stop scrolling.', callToAction: 'Follow' });
+    });
+
+    it('turns the refusal sentinel into a ContentViolationError without showing it', async () => {
+        const source = createFakeStreamSource(() => ['{"hook": "CONTENT_', 'VIOLATION"}']);
+        const partials: Record<string, unknown>[] = [];
+
+        await expect(generateStructured(source, REQUEST, new AbortController().signal, partial => partials.push(partial)))
+            .rejects.toBeInstanceOf(ContentViolationError);
+        expect(partials).toEqual([]);
+    });
+
+    it('asks for a repair when the first response does not match the schema', async () => {
+        const prompts: string[] = [];
+        const source = createFakeStreamSource(request => {
+            prompts.push(request.prompt);
+            return prompts.length === 1 ? ['{"hook": 42}'] : [VALID];
+        });
+        const result = await generateStructured(source, REQUEST, new AbortController().signal, () => {});
+
+        expect(result.value).toEqual({ hook: 'Stop scrolling.', callToAction: 'Follow for more.' });
+        expect(prompts).toHaveLength(2);
+        expect(prompts[1]).toContain('Your previous response could not be used');
+        expect(prompts[1]).toContain('{"hook": 42}');
+    });
+
+    it('repairs a response that is not valid JSON', async () => {
+        let calls = 0;
+        const source = createFakeStreamSource(() => ++calls === 1 ? ['Sure! Here is your script:'] : [VALID]);
+        const result = await generateStructured(source, REQUEST, new AbortController().signal, () => {});
+
+        expect(calls).toBe(2);
+        expect(result.aborted).toBe(false);
+    });
+
+    it('gives up with a SchemaValidationError when the repair is still invalid', async () => {
+        const source = createFakeStreamSource(() => ['{"hook": "Stop scrolling."}']);
+
+        const error = await generateStructured(source, REQUEST, new AbortController().signal, () => {}).catch(e => e);
+
+        expect(error).toBeInstanceOf(SchemaValidationError);
+        expect(error.message).toContain('callToAction is missing');
+        expect(error.value).toEqual({ hook: 'Stop scrolling.', callToAction: '' });
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ScriptStreamSource, StreamRequest, consumeScriptStream } from './scriptStream';
+import { ValidationIssue, formatIssues, sanitizePartial, validateAgainstSchema } from './validation';
+
+const VIOLATION_SENTINEL = 'CONTENT_VIOLATION';
+const MAX_REPAIR_ATTEMPTS = 1;
+const MAX_ECHOED_RESPONSE_LENGTH = 4000;
+
+export class ContentViolationError extends Error {}
+
+export class SchemaValidationError extends Error {
+    issues: ValidationIssue[];
+    value: Record<string, unknown>;
+
+    constructor(issues: ValidationIssue[], value: Record<string, unknown>) {
+        super(`The generated script did not match the expected format: ${formatIssues(issues)}.`);
+        this.issues = issues;
+        this.value = value;
+    }
+}
+
+export type StructuredResult = {
+    value: Record<string, unknown>;
+    aborted: boolean;
+};
+
+const isSentinelPrefix = (value: unknown) => typeof value === 'string' && value.length > 0 && VIOLATION_SENTINEL.startsWith(value);
+
+const buildRepairPrompt = (request: StreamRequest, problems: string, previousText: string) => {
+    return `${request.prompt}\n\nYour previous response could not be used because ${problems}.\n\nPrevious response:\n${previousText.slice(0, MAX_ECHOED_RESPONSE_LENGTH)}\n\nReturn the complete, corrected JSON object that matches the required schema exactly.`;
+};
+
+// Streams a JSON response, validates it against the request schema and asks the model to repair it if needed
+export const generateStructured = async (
+    source: ScriptStreamSource,
+    request: StreamRequest,
+    signal: AbortSignal,
+    onPartial: (value: Record<string, unknown>) => void,
+): Promise<StructuredResult> => {
+    let attemptRequest = request;
+    for (let attempt = 0; ; attempt++) {
+        const result = await consumeScriptStream(source(attemptRequest, signal), signal, sections => {
+            // Don't flash a refusal sentinel while it is still arriving
+            if (Object.values(sections).some(isSentinelPrefix)) return;
+            onPartial(sanitizePartial(request.responseSchema, sections));
+        });
+
+        if (result.aborted) {
+            return { value: sanitizePartial(request.responseSchema, result.sections), aborted: true };
+        }
+        if (!result.text) {
+            throw new Error("The model did not return a script. This might be due to a content safety filter. Please try modifying your request.");
+        }
+
+        let problems: string;
+        let issues: ValidationIssue[] = [];
+        let value: Record<string, unknown> = {};
+        try {
+            const parsed = JSON.parse(result.text);
+            if (JSON.stringify(parsed).includes(VIOLATION_SENTINEL)) {
+                throw new ContentViolationError("Sorry, we are not able to provide this type of information.");
+            }
+            ({ value, issues } = validateAgainstSchema(request.responseSchema, parsed));
+            if (issues.length === 0) return { value, aborted: false };
+            console.warn("Schema Validation Issues:", issues, "Raw Text:", result.text);
+            problems = `these fields were wrong: ${formatIssues(issues, 10)}`;
+        } catch (parseError) {
+            if (parseError instanceof ContentViolationError) throw parseError;
+            console.error("JSON Parsing Error:", parseError, "Raw Text:", result.text);
+            problems = 'it was not valid JSON';
+            if (attempt >= MAX_REPAIR_ATTEMPTS) {
+                throw new Error("The generated script was not in the expected format. Please try again.");
+            }
+        }
+
+        if (attempt >= MAX_REPAIR_ATTEMPTS) {
+            throw new SchemaValidationError(issues, value);
+        }
+        attemptRequest = { ...request, prompt: buildRepairPrompt(request, problems, result.text) };
+    }
+};
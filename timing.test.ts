@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { SpokenSection } from './scriptFormat';
+import { buildCaptionCues, clampWordsPerMinute, estimateSeconds, formatDuration, toSrt, toWebVtt } from './timing';
+
+const section = (text: string, key = 'hook'): SpokenSection => ({ key, title: key, text });
+
+describe('buildCaptionCues', () => {
+    it('makes one cue per sentence, timed by word count', () => {
+        const cues = buildCaptionCues([section('Stop scrolling. Here is why cold brew wins.')], 120);
+
+        expect(cues).toEqual([
+            { start: 0, end: 1, text: 'Stop scrolling.' },
+            { start: 1, end: 4, text: 'Here is why cold brew wins.' },
+        ]);
+    });
+
+    it('continues the clock across sections', () => {
+        const cues = buildCaptionCues([section('One two.'), section('Three four five.', 'callToAction')], 60);
+
+        expect(cues.map(cue => [cue.start, cue.end])).toEqual([[0, 2], [2, 5]]);
+    });
+
+    it('stretches the cues when the speaking rate is slower', () => {
+        const text = 'Cold brew takes twelve hours but almost no effort.';
+        const fast = buildCaptionCues([section(text)], 180);
+        const slow = buildCaptionCues([section(text)], 90);
+
+        expect(fast[fast.length - 1].end).toBeCloseTo(3);
+        expect(slow[slow.length - 1].end).toBeCloseTo(6);
+    });
+
+    it('wraps a cue over 42 characters onto two balanced lines', () => {
+        const [cue] = buildCaptionCues([section('Grind the beans coarse and steep them overnight.')], 150);
+
+        expect(cue.text).toBe('Grind the beans coarse\nand steep them overnight.');
+    });
+
+    it('leaves a single long word on one line', () => {
+        const [cue] = buildCaptionCues([section('Pneumonoultramicroscopicsilicovolcanoconiosis-adjacent!')], 150);
+
+        expect(cue.text).toBe('Pneumonoultramicroscopicsilicovolcanoconiosis-adjacent!');
+    });
+
+    it('shares a long sentence evenly between cues of at most two lines', () => {
+        const sentence = 'This sentence keeps going with more and more words so that it cannot possibly fit into one caption cue on screen.';
+        const cues = buildCaptionCues([section(sentence)], 150);
+
+        expect(cues).toHaveLength(2);
+        cues.forEach(cue => {
+            const lines = cue.text.split('\n');
+            expect(lines.length).toBeLessThanOrEqual(2);
+            lines.forEach(line => expect(line.length).toBeGreaterThan(0));
+        });
+        expect(cues.map(cue => cue.text.replace('\n', ' ')).join(' ')).toBe(sentence);
+    });
+});
+
+describe('toSrt', () => {
+    it('numbers cues and uses a comma before the milliseconds', () => {
+        const srt = toSrt([
+            { start: 0, end: 1.5, text: 'Stop scrolling.' },
+            { start: 3661.25, end: 3663.0004, text: 'Line one\nLine two' },
+        ]);
+
+        expect(srt).toBe('1\n00:00:00,000 --> 00:00:01,500\nStop scrolling.\n\n2\n01:01:01,250 --> 01:01:03,000\nLine one\nLine two\n');
+    });
+});
+
+describe('toWebVtt', () => {
+    it('starts with the WEBVTT header and uses a dot before the milliseconds', () => {
+        const vtt = toWebVtt([{ start: 59.9996, end: 61.2, text: 'Stop scrolling.' }]);
+
+        expect(vtt).toBe('WEBVTT\n\n00:01:00.000 --> 00:01:01.200\nStop scrolling.\n');
+    });
+});
+
+describe('estimateSeconds', () => {
+    it('times text at the given speaking rate', () => {
+        expect(estimateSeconds('one two three four five', 150)).toBe(2);
+        expect(formatDuration(estimateSeconds('word '.repeat(200), 150))).toBe('1:20');
+    });
+
+    it('keeps the speaking rate within the supported range', () => {
+        expect(clampWordsPerMinute(10)).toBe(60);
+        expect(clampWordsPerMinute(999)).toBe(260);
+        expect(clampWordsPerMinute(Number.NaN)).toBe(150);
+    });
+});
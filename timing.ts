@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SpokenSection, countWords } from './scriptFormat';
+
+export type CaptionCue = {
+    start: number;
+    end: number;
+    text: string;
+};
+
+const SPEAKING_RATE_KEY = 'script-writer:wordsPerMinute';
+const MAX_LINE_CHARACTERS = 42;
+const MAX_CUE_CHARACTERS = MAX_LINE_CHARACTERS * 2;
+
+export const DEFAULT_WORDS_PER_MINUTE = 150;
+export const MIN_WORDS_PER_MINUTE = 60;
+export const MAX_WORDS_PER_MINUTE = 260;
+
+export const clampWordsPerMinute = (value: number) => {
+    if (!Number.isFinite(value)) return DEFAULT_WORDS_PER_MINUTE;
+    return Math.min(MAX_WORDS_PER_MINUTE, Math.max(MIN_WORDS_PER_MINUTE, Math.round(value)));
+};
+
+export const loadSpeakingRate = (): number => {
+    const stored = localStorage.getItem(SPEAKING_RATE_KEY);
+    return stored ? clampWordsPerMinute(Number(stored)) : DEFAULT_WORDS_PER_MINUTE;
+};
+
+export const saveSpeakingRate = (wordsPerMinute: number) => {
+    localStorage.setItem(SPEAKING_RATE_KEY, String(wordsPerMinute));
+};
+
+export const estimateSeconds = (text: string, wordsPerMinute: number) => countWords(text) / wordsPerMinute * 60;
+
+export const formatDuration = (totalSeconds: number) => {
+    const seconds = Math.max(0, Math.round(totalSeconds));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const splitSentences = (text: string) => text.match(/[^.!?\n]+(?:[.!?]+["'”’)\]]*)?/g)?.map(s => s.trim()).filter(Boolean) ?? [];
+
+// Breaks a cue into at most two lines, as close to the middle as the words allow
+const wrapCueText = (text: string) => {
+    const words = text.split(' ');
+    // A single long word can't be split without leaving an empty line
+    if (text.length <= MAX_LINE_CHARACTERS || words.length < 2) return text;
+    let best = 1;
+    let bestDistance = Infinity;
+    for (let i = 1; i < words.length; i++) {
+        const distance = Math.abs(words.slice(0, i).join(' ').length - text.length / 2);
+        if (distance < bestDistance) {
+            best = i;
+            bestDistance = distance;
+        }
+    }
+    return `${words.slice(0, best).join(' ')}\n${words.slice(best).join(' ')}`;
+};
+
+// Cues follow sentence boundaries and are timed by word count, so they add up to the runtime estimate
+export const buildCaptionCues = (sections: SpokenSection[], wordsPerMinute: number): CaptionCue[] => {
+    const cues: CaptionCue[] = [];
+    const secondsPerWord = 60 / wordsPerMinute;
+    let clock = 0;
+
+    const pushCue = (words: string[]) => {
+        const end = clock + words.length * secondsPerWord;
+        cues.push({ start: clock, end, text: wrapCueText(words.join(' ')) });
+        clock = end;
+    };
+
+    sections.forEach(section => {
+        splitSentences(section.text).forEach(sentence => {
+            // Long sentences are shared evenly between cues instead of leaving a short orphan at the end
+            const targetLength = sentence.length / Math.ceil(sentence.length / MAX_CUE_CHARACTERS);
+            let words: string[] = [];
+            sentence.split(/\s+/).forEach(word => {
+                const length = words.join(' ').length;
+                if (words.length > 0 && (length >= targetLength || length + word.length + 1 > MAX_CUE_CHARACTERS)) {
+                    pushCue(words);
+                    words = [];
+                }
+                words.push(word);
+            });
+            if (words.length > 0) pushCue(words);
+        });
+    });
+    return cues;
+};
+
+const formatTimestamp = (totalSeconds: number, separator: ',' | '.') => {
+    const milliseconds = Math.round(totalSeconds * 1000);
+    const hours = Math.floor(milliseconds / 3600000);
+    const minutes = Math.floor(milliseconds / 60000) % 60;
+    const seconds = Math.floor(milliseconds / 1000) % 60;
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(milliseconds % 1000, 3)}`;
+};
+
+export const toSrt = (cues: CaptionCue[]): string => {
+    return cues
+        .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}`)
+        .join('\n\n') + '\n';
+};
+
+export const toWebVtt = (cues: CaptionCue[]): string => {
+    const body = cues
+        .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}`)
+        .join('\n\n');
+    return `WEBVTT\n\n${body}\n`;
+};
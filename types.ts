@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type ShotRoll = 'A-roll' | 'B-roll';
+
+export type Shot = {
+    description: string;
+    shotType: string;
+    framing: string;
+    cameraMovement: string;
+    durationSeconds: number;
+    // Key of the script section the shot covers
+    section: string;
+    roll: ShotRoll;
+};
+
+export type Chapter = {
+    timestamp: string;
+    title: string;
+    narration: string;
+    visuals: string;
+};
+
+export type PodcastLine = {
+    speaker: string;
+    role: 'host' | 'guest';
+    text: string;
+};
+
+export type PodcastSegment = {
+    title: string;
+    lines: PodcastLine[];
+};
+
+export type Character = {
+    name: string;
+    description: string;
+};
+
+export type SceneElement = {
+    type: 'dialogue' | 'direction';
+    character: string;
+    text: string;
+};
+
+export type Scene = {
+    heading: string;
+    elements: SceneElement[];
+};
+
+export type AdBeat = {
+    timecode: string;
+    visual: string;
+    audio: string;
+};
+
+export type GeneratedSectionValue =
+    | string
+    | Shot[]
+    | Chapter[]
+    | PodcastSegment[]
+    | Character[]
+    | Scene[]
+    | AdBeat[];
+
+export type ScriptSections = Record<string, GeneratedSectionValue>;
+
+export type SectionKind = 'text' | 'shotList' | 'chapters' | 'podcastSegments' | 'characters' | 'scenes' | 'adBeats';
+
+export type ScriptTypeId = 'social' | 'youtube' | 'podcast' | 'stagePlay' | 'adSpot';
+
+export type SectionHistory = {
+    versions: GeneratedSectionValue[];
+    current: number;
+};
+
+// Competing takes on a short section, kept so a different one can be picked later
+export type SectionAlternatives = {
+    options: string[];
+    selected: number;
+};
+
+export type ScriptVariant = {
+    platform: string;
+    sections: ScriptSections;
+    sectionHistory?: Record<string, SectionHistory>;
+    // Translated copies of the sections, keyed by language code
+    translations?: Record<string, ScriptSections>;
+    alternatives?: Record<string, SectionAlternatives>;
+};
+
+export type GeneratedScript = {
+    scriptType: ScriptTypeId;
+    language?: string;
+    variants: ScriptVariant[];
+};
+
+export type BrandProfile = {
+    id: string;
+    name: string;
+    voice: string;
+    audience: string;
+    requiredPhrases: string[];
+    forbiddenPhrases: string[];
+    callToAction: string;
+    hashtags: string;
+    preferredPlatforms: string[];
+    wordCount: string;
+    updatedAt: number;
+};
+
+export type ProjectInputs = {
+    scriptContent: string;
+    wordCount: string;
+    advancedInstructions: string;
+    selectedPlatforms: string[];
+    scriptType: ScriptTypeId;
+    brandProfileId?: string | null;
+    language?: string;
+};
+
+export type ScriptVersion = {
+    id: string;
+    createdAt: number;
+    script: GeneratedScript;
+};
+
+export type ScriptProject = {
+    id: string;
+    name: string;
+    tags: string[];
+    createdAt: number;
+    updatedAt: number;
+    inputs: ProjectInputs;
+    versions: ScriptVersion[];
+};
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Schema, Type } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { formatIssues, sanitizePartial, validateAgainstSchema } from './validation';
+
+const SHOT_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        roll: { type: Type.STRING, enum: ['A-roll', 'B-roll'] },
+        durationSeconds: { type: Type.NUMBER },
+        description: { type: Type.STRING },
+    },
+    required: ['roll', 'description'],
+};
+
+const SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        hook: { type: Type.STRING },
+        keyPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+        shotList: { type: Type.ARRAY, items: SHOT_SCHEMA },
+        episode: { type: Type.INTEGER },
+    },
+    required: ['hook', 'keyPoints'],
+};
+
+describe('validateAgainstSchema', () => {
+    it('accepts a value that already matches', () => {
+        const data = { hook: 'Stop scrolling.', keyPoints: ['One', 'Two'], shotList: [{ roll: 'A-roll', durationSeconds: 3, description: 'Host' }] };
+
+        expect(validateAgainstSchema(SCHEMA, data)).toEqual({ value: data, issues: [] });
+    });
+
+    it('reads numbers from strings', () => {
+        const { value, issues } = validateAgainstSchema(SCHEMA, { hook: 'Hi', keyPoints: [], episode: ' 3.6 ', shotList: [{ roll: 'b-roll', durationSeconds: '2.5', description: 'Mug' }] });
+
+        expect(issues).toEqual([]);
+        expect(value.episode).toBe(4);
+        expect(value.shotList).toEqual([{ roll: 'B-roll', durationSeconds: 2.5, description: 'Mug' }]);
+    });
+
+    it('reports a number that cannot be read', () => {
+        const { value, issues } = validateAgainstSchema(SCHEMA, { hook: 'Hi', keyPoints: [], episode: 'three' });
+
+        expect(value.episode).toBe(0);
+        expect(issues).toEqual([{ path: 'episode', message: 'expected a number but got a string' }]);
+    });
+
+    it('splits a bulleted string into a list of strings', () => {
+        const { value, issues } = validateAgainstSchema(SCHEMA, { hook: 'Hi', keyPoints: '- Grind coarse\n2) Steep overnight\n\n• Strain' });
+
+        expect(issues).toEqual([]);
+        expect(value.keyPoints).toEqual(['Grind coarse', 'Steep overnight', 'Strain']);
+    });
+
+    it('wraps a single object in a list', () => {
+        const { value } = validateAgainstSchema(SCHEMA, { hook: 'Hi', keyPoints: [], shotList: { roll: 'A-roll', description: 'Host' } });
+
+        expect(value.shotList).toEqual([{ roll: 'A-roll', description: 'Host' }]);
+    });
+
+    it('drops keys the schema does not define', () => {
+        const { value, issues } = validateAgainstSchema(SCHEMA, { hook: 'Hi', keyPoints: [], notes: 'Extra', shotList: [{ roll: 'A-roll', description: 'Host', lens: '35mm' }] });
+
+        expect(issues).toEqual([]);
+        expect(value).toEqual({ hook: 'Hi', keyPoints: [], shotList: [{ roll: 'A-roll', description: 'Host' }] });
+    });
+
+    it('names each missing required field and fills it with an empty value', () => {
+        const { value, issues } = validateAgainstSchema(SCHEMA, { shotList: [{ durationSeconds: 2 }] });
+
+        expect(issues.map(issue => issue.path)).toEqual(['hook', 'keyPoints', 'shotList[0].roll', 'shotList[0].description']);
+        expect(formatIssues(issues, 10)).toBe('hook is missing; keyPoints is missing; shotList[0].roll is missing; shotList[0].description is missing');
+        expect(value).toEqual({ hook: '', keyPoints: [], shotList: [{ roll: 'A-roll', durationSeconds: 2, description: '' }] });
+    });
+
+    it('reports an enum value it cannot match', () => {
+        const { issues } = validateAgainstSchema(SCHEMA, { hook: 'Hi', keyPoints: [], shotList: [{ roll: 'C-roll', description: 'Host' }] });
+
+        expect(issues).toEqual([{ path: 'shotList[0].roll', message: 'expected one of A-roll, B-roll but got "C-roll"' }]);
+    });
+});
+
+describe('sanitizePartial', () => {
+    it('keeps only the keys that have arrived, without reporting missing ones', () => {
+        expect(sanitizePartial(SCHEMA, { hook: 'Stop scr' })).toEqual({ hook: 'Stop scr' });
+    });
+
+    it('fixes the shape of a half-streamed list', () => {
+        const partial = { hook: 'Hi', keyPoints: '- Grind', shotList: [{ roll: 'A-roll', durationSeconds: '2' }], notes: 'Extra', episode: null };
+
+        expect(sanitizePartial(SCHEMA, partial)).toEqual({
+            hook: 'Hi',
+            keyPoints: ['Grind'],
+            shotList: [{ roll: 'A-roll', durationSeconds: 2, description: '' }],
+        });
+    });
+});
+
+describe('formatIssues', () => {
+    it('lists the first few issues and counts the rest', () => {
+        const issues = ['a', 'b', 'c', 'd', 'e'].map(path => ({ path, message: 'is missing' }));
+
+        expect(formatIssues(issues)).toBe('a is missing; b is missing; c is missing; 2 more');
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Schema, Type } from "@google/genai";
+
+export type ValidationIssue = {
+    path: string;
+    message: string;
+};
+
+export type ValidationResult<T = unknown> = {
+    value: T;
+    issues: ValidationIssue[];
+};
+
+const describe = (value: unknown) => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'a list';
+    return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+};
+
+const joinPath = (path: string, key: string | number) => {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    return path ? `${path}.${key}` : key;
+};
+
+// Values the renderers can always handle, used when a field is missing or unusable
+const emptyValue = (schema: Schema): unknown => {
+    switch (schema.type) {
+        case Type.OBJECT:
+            return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, value]) => [key, emptyValue(value)]));
+        case Type.ARRAY:
+            return [];
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return 0;
+        case Type.BOOLEAN:
+            return false;
+        default:
+            return schema.enum?.[0] ?? '';
+    }
+};
+
+const coerceString = (schema: Schema, value: unknown, path: string, issues: ValidationIssue[]): string => {
+    let text: string | null = null;
+    if (typeof value === 'string') text = value;
+    else if (typeof value === 'number' || typeof value === 'boolean') text = String(value);
+    else if (Array.isArray(value) && value.every(v => typeof v === 'string' || typeof v === 'number')) text = value.join(' ');
+
+    if (text === null) {
+        issues.push({ path, message: `expected text but got ${describe(value)}` });
+        return emptyValue(schema) as string;
+    }
+    if (schema.enum) {
+        const match = schema.enum.find(option => option.toLowerCase() === text!.trim().toLowerCase());
+        if (!match) {
+            issues.push({ path, message: `expected one of ${schema.enum.join(', ')} but got "${text}"` });
+            return schema.enum[0];
+        }
+        return match;
+    }
+    return text;
+};
+
+const coerceArray = (schema: Schema, value: unknown, path: string, issues: ValidationIssue[]): unknown[] => {
+    const itemSchema = schema.items ?? { type: Type.STRING };
+    let items: unknown[];
+    if (Array.isArray(value)) {
+        items = value;
+    } else if (typeof value === 'string' && itemSchema.type === Type.STRING) {
+        // A bulleted or line-separated string can safely become a list of strings
+        items = value.split('\n').map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim()).filter(Boolean);
+    } else if (value && typeof value === 'object') {
+        items = [value];
+    } else {
+        issues.push({ path, message: `expected a list but got ${describe(value)}` });
+        return [];
+    }
+    return items.map((item, i) => coerceValue(itemSchema, item, joinPath(path, i), issues));
+};
+
+const coerceObject = (schema: Schema, value: unknown, path: string, issues: ValidationIssue[]): Record<string, unknown> => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, message: `expected an object but got ${describe(value)}` });
+        return emptyValue(schema) as Record<string, unknown>;
+    }
+    const source = value as Record<string, unknown>;
+    const required = schema.required ?? [];
+    const result: Record<string, unknown> = {};
+    // Keys outside the schema are dropped so they never show up as sections
+    Object.entries(schema.properties ?? {}).forEach(([key, propertySchema]) => {
+        const propertyPath = joinPath(path, key);
+        if (source[key] === undefined || source[key] === null) {
+            if (required.includes(key)) {
+                issues.push({ path: propertyPath, message: 'is missing' });
+                result[key] = emptyValue(propertySchema);
+            }
+            return;
+        }
+        result[key] = coerceValue(propertySchema, source[key], propertyPath, issues);
+    });
+    return result;
+};
+
+const coerceValue = (schema: Schema, value: unknown, path: string, issues: ValidationIssue[]): unknown => {
+    switch (schema.type) {
+        case Type.OBJECT:
+            return coerceObject(schema, value, path, issues);
+        case Type.ARRAY:
+            return coerceArray(schema, value, path, issues);
+        case Type.NUMBER:
+        case Type.INTEGER: {
+            const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : NaN;
+            if (Number.isNaN(number)) {
+                issues.push({ path, message: `expected a number but got ${describe(value)}` });
+                return 0;
+            }
+            return schema.type === Type.INTEGER ? Math.round(number) : number;
+        }
+        case Type.BOOLEAN:
+            if (typeof value === 'boolean') return value;
+            if (value === 'true' || value === 'false') return value === 'true';
+            issues.push({ path, message: `expected true or false but got ${describe(value)}` });
+            return false;
+        default:
+            return coerceString(schema, value, path, issues);
+    }
+};
+
+// Checks data against the schema the request declared, coercing what can be fixed without guessing
+export const validateAgainstSchema = <T = Record<string, unknown>,>(schema: Schema, data: unknown): ValidationResult<T> => {
+    const issues: ValidationIssue[] = [];
+    const value = coerceValue(schema, data, '', issues) as T;
+    return { value, issues };
+};
+
+// Streamed sections are incomplete by nature, so only their shape is fixed and missing keys are ignored
+export const sanitizePartial = (schema: Schema, partial: Record<string, unknown>): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    Object.entries(partial).forEach(([key, value]) => {
+        const propertySchema = schema.properties?.[key];
+        if (propertySchema && value !== null && value !== undefined) {
+            result[key] = coerceValue(propertySchema, value, key, []);
+        }
+    });
+    return result;
+};
+
+export const formatIssues = (issues: ValidationIssue[], limit = 3) => {
+    const listed = issues.slice(0, limit).map(issue => `${issue.path || 'response'} ${issue.message}`);
+    if (issues.length > limit) listed.push(`${issues.length - limit} more`);
+    return listed.join('; ');
+};